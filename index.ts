@@ -1,9 +1,12 @@
 import { defineChannelPluginEntry } from "openclaw/plugin-sdk/core";
 import { dingtalkPlugin } from "./src/channel.js";
 import { setDingTalkRuntime } from "./src/runtime.js";
+import { MEDIA_PROXY_ROUTE, handleMediaProxyRequest } from "./src/media-proxy.js";
 
 export { dingtalkPlugin } from "./src/channel.js";
 export { setDingTalkRuntime } from "./src/runtime.js";
+export { setDingTalkTransport, addDingTalkTransportHooks } from "./src/transport.js";
+export type { DingTalkFetch, DingTalkRequest, DingTalkRequestKind, DingTalkTransportHooks } from "./src/transport.js";
 
 export default defineChannelPluginEntry({
   id: "ddingtalk",
@@ -11,4 +14,13 @@ export default defineChannelPluginEntry({
   description: "DingTalk (钉钉) enterprise robot channel plugin",
   plugin: dingtalkPlugin,
   setRuntime: setDingTalkRuntime,
+  registerFull: (api) => {
+    // images.delivery=proxy 时的图片链接，由签名校验访问权限
+    api.registerHttpRoute({
+      path: MEDIA_PROXY_ROUTE,
+      match: "prefix",
+      auth: "plugin",
+      handler: handleMediaProxyRequest,
+    });
+  },
 });
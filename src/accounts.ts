@@ -8,7 +8,7 @@ import type {
   DingTalkAccountConfig,
   ResolvedDingTalkAccount,
 } from "./types.js";
-import { PLUGIN_ID } from "./constants.js";
+import { DEFAULT_AI_CARD_TEMPLATE_ID, DEFAULT_API_BASE_URL, DEFAULT_CALENDAR_TIME_ZONE, DEFAULT_CHAT_LINK_TEMPLATE, DEFAULT_OAPI_BASE_URL, DEFAULT_SPACE_FILE_LINK_TEMPLATE, DEFAULT_TODO_TIME_ZONE, PLUGIN_ID } from "./constants.js";
 
 // ======================= Account List Helpers =======================
 
@@ -109,6 +109,12 @@ function mergeDingTalkAccountConfig(
 
 // ======================= Account Resolution =======================
 
+/** 规范化 API 地址（去除首尾空白和末尾斜杠），未配置时返回 undefined */
+function normalizeBaseUrl(url: string | undefined): string | undefined {
+  const trimmed = url?.trim().replace(/\/+$/, "");
+  return trimmed || undefined;
+}
+
 /**
  * 解析钉钉账户配置
  *
@@ -148,10 +154,66 @@ export function resolveDingTalkAccount(params: {
     clientId,
     clientSecret,
     tokenSource,
+    apiBaseUrl: normalizeBaseUrl(merged.apiBaseUrl) ?? DEFAULT_API_BASE_URL,
+    oapiBaseUrl: normalizeBaseUrl(merged.oapiBaseUrl) ?? DEFAULT_OAPI_BASE_URL,
     allowFrom: merged.allowFrom ?? ["*"],
     groupPolicy: merged.groupPolicy ?? "open",
     groupAllowFrom: merged.groupAllowFrom ?? [],
     groups: merged.groups ?? {},
+    replyMode: merged.replyMode ?? "markdown",
+    atSender: merged.atSender ?? true,
+    allowAtAll: merged.allowAtAll ?? false,
+    cardTemplateId: merged.cardTemplateId?.trim() || DEFAULT_AI_CARD_TEMPLATE_ID,
+    interactiveCardTemplateId: merged.interactiveCardTemplateId?.trim() || undefined,
+    actions: merged.actions ?? {},
+    readReceipts: {
+      poll: merged.readReceipts?.poll ?? false,
+      intervalMs: (merged.readReceipts?.intervalSeconds ?? 60) * 1000,
+      maxWaitMs: (merged.readReceipts?.maxWaitMinutes ?? 60) * 60 * 1000,
+    },
+    images: {
+      normalize: merged.images?.normalize ?? true,
+      maxSide: merged.images?.maxSide ?? 4096,
+      maxBytes: (merged.images?.maxSizeMB ?? 20) * 1024 * 1024,
+      stripLocation: merged.images?.stripLocation ?? true,
+      delivery: merged.images?.delivery ?? "mediaId",
+      proxyBaseUrl: normalizeBaseUrl(merged.images?.proxyBaseUrl),
+      proxyTtlMs: (merged.images?.proxyTtlHours ?? 168) * 60 * 60 * 1000,
+    },
+    sendQueue: {
+      perMinute: merged.sendQueue?.perMinute ?? 20,
+      mergeChunks: merged.sendQueue?.mergeChunks ?? true,
+    },
+    senderProfile: {
+      enabled: merged.senderProfile?.enabled ?? false,
+      ttlMs: (merged.senderProfile?.ttlMinutes ?? 60) * 60 * 1000,
+    },
+    todo: {
+      creatorUserId: merged.todo?.creatorUserId?.trim() || undefined,
+      chatLinkTemplate: merged.todo?.chatLinkTemplate?.trim() || DEFAULT_CHAT_LINK_TEMPLATE,
+      timeZone: merged.todo?.timeZone?.trim() || DEFAULT_TODO_TIME_ZONE,
+    },
+    calendar: {
+      organizerUserId: merged.calendar?.organizerUserId?.trim() || undefined,
+      timeZone: merged.calendar?.timeZone?.trim() || DEFAULT_CALENDAR_TIME_ZONE,
+      sendCard: merged.calendar?.sendCard ?? true,
+    },
+    largeFiles: {
+      operatorUserId: merged.largeFiles?.operatorUserId?.trim() || undefined,
+      spaceId: merged.largeFiles?.spaceId?.trim() || undefined,
+      maxBytes: (merged.largeFiles?.maxSizeMB ?? 500) * 1024 * 1024,
+      linkTemplate: merged.largeFiles?.linkTemplate?.trim() || DEFAULT_SPACE_FILE_LINK_TEMPLATE,
+    },
+    ding: {
+      recipients: (merged.ding?.recipients ?? []).map((entry) => String(entry).trim()).filter(Boolean),
+      requesters: (merged.ding?.requesters ?? []).map((entry) => String(entry).trim()).filter(Boolean),
+      allowWithoutRequester: merged.ding?.allowWithoutRequester ?? false,
+      types: merged.ding?.types ?? ["app", "sms", "call"],
+    },
+    sceneGroups: {
+      templateId: merged.sceneGroups?.templateId?.trim() || undefined,
+      ownerUserId: merged.sceneGroups?.ownerUserId?.trim() || undefined,
+    },
   };
 }
 
@@ -0,0 +1,651 @@
+import type { ChannelMessageActionAdapter, ChannelMessageActionName } from "openclaw/plugin-sdk/channel-contract";
+import type { DingRemindType, ResolvedDingTalkAccount } from "./types.js";
+import {
+  createActionGate,
+  jsonResult,
+  readNumberParam,
+  readStringArrayParam,
+  readStringOrNumberParam,
+  readStringParam,
+} from "openclaw/plugin-sdk/agent-runtime";
+import { extractToolSend } from "openclaw/plugin-sdk/tool-send";
+import { resolveDingTalkAccount } from "./accounts.js";
+import {
+  updateCardData,
+  recallOTOMessages,
+  recallGroupMessages,
+  isGroupTarget,
+  extractTargetId,
+  createSceneGroup,
+  addSceneGroupMembers,
+  removeSceneGroupMembers,
+  updateSceneGroupTitle,
+  getSceneGroupInfo,
+  createTodoTask,
+  updateTodoTask,
+  createCalendarEvent,
+  queryFreeBusy,
+  getUserDetail,
+  sendTextMessage,
+  type RecallMessagesResult,
+} from "./client.js";
+import { resolveDirectoryTarget, resolvePersonId } from "./directory.js";
+import { sendDing, isDingEnabled } from "./ding.js";
+import { parseEventTime, parseFreeBusyRange, findFreeWindows, formatTimeRange, buildEventCard } from "./calendar.js";
+import { getMessageMentions } from "./mentions.js";
+import { rememberTodoTask, getTodoRecord, parseDueTime, parseTodoPriority, buildChatLink } from "./todo.js";
+import { getInteractiveCardRecord } from "./interactive-card.js";
+import { getSentMessage, forgetSentMessages } from "./message-store.js";
+import { queryReadReceipt } from "./read-receipts.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/**
+ * 撤回已发送的消息
+ * 按发送记录找回每条消息所在的会话，同一会话的消息合并为一次批量撤回；
+ * 只能撤回当前账号发送的消息，没有发送记录的消息（如记录已过期）按 fallbackTo 指定的会话撤回
+ */
+async function recallSentMessages(params: {
+  account: ResolvedDingTalkAccount;
+  messageIds: string[];
+  fallbackTo?: string;
+}): Promise<RecallMessagesResult> {
+  const { account, messageIds } = params;
+  const fallbackTo = params.fallbackTo?.trim().replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "");
+  const result: RecallMessagesResult = { recalled: [], failed: {} };
+
+  // 按会话分组
+  const batches = new Map<string, string[]>();
+  for (const messageId of messageIds) {
+    const record = await getSentMessage(messageId);
+    if (record && record.accountId !== account.accountId) {
+      result.failed[messageId] = "该消息不是当前账号发送的，不能撤回";
+      continue;
+    }
+    const to = record?.to ?? fallbackTo;
+    if (!to) {
+      result.failed[messageId] = "未找到发送记录，请同时提供消息所在会话（to）";
+      continue;
+    }
+    batches.set(to, [...(batches.get(to) ?? []), messageId]);
+  }
+
+  for (const [to, ids] of batches) {
+    try {
+      const batchResult = isGroupTarget(to)
+        ? await recallGroupMessages(extractTargetId(to), ids, { account })
+        : await recallOTOMessages(ids, { account });
+      result.recalled.push(...batchResult.recalled);
+      Object.assign(result.failed, batchResult.failed);
+    } catch (err) {
+      logger.error(`[撤回消息] 失败 | to: ${to} | ${String(err)}`);
+      for (const messageId of ids) {
+        result.failed[messageId] = err instanceof Error ? err.message : String(err);
+      }
+    }
+  }
+
+  if (result.recalled.length > 0) {
+    await forgetSentMessages(result.recalled);
+  }
+  return result;
+}
+
+/** 场景群管理操作 */
+const GROUP_ACTIONS = ["channel-create", "addParticipant", "removeParticipant", "renameGroup", "channel-info"] as const;
+
+/** 读取操作指定的群会话 ID（支持 chat:<openConversationId> 和 ddingtalk:chat: 前缀） */
+function readGroupId(params: Record<string, unknown>): string | undefined {
+  const raw = readStringParam(params, "groupId")
+    ?? readStringParam(params, "channelId")
+    ?? readStringParam(params, "to")
+    ?? readStringParam(params, "target");
+  const groupId = raw?.replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "").replace(/^chat:/i, "").trim();
+  return groupId || undefined;
+}
+
+/**
+ * 读取操作指定的成员，并解析为用户 ID
+ * 支持 userId、user:<userId> 和 mobile: / email: / name: 通讯录查询（有歧义时报错并列出候选人）
+ */
+async function readMemberIds(
+  params: Record<string, unknown>,
+  keys: string[],
+  account: ResolvedDingTalkAccount
+): Promise<string[]> {
+  const values: string[] = [];
+  for (const key of keys) {
+    values.push(...(readStringArrayParam(params, key) ?? []));
+  }
+  return resolveMemberIds(values, account);
+}
+
+/** 将成员列表解析为用户 ID（去重） */
+async function resolveMemberIds(values: string[], account: ResolvedDingTalkAccount): Promise<string[]> {
+  const ids = await Promise.all(
+    values
+      .map((value) => value.trim().replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "").replace(/^user:/i, ""))
+      .filter(Boolean)
+      .map((value) => resolveDirectoryTarget(value, account))
+  );
+  return [...new Set(ids)];
+}
+
+/** sendWithEffect 的 effect 对应的 DING 提醒方式 */
+const DING_EFFECTS: Record<string, DingRemindType> = {
+  ding: "app",
+  app: "app",
+  sms: "sms",
+  call: "call",
+  phone: "call",
+};
+
+/**
+ * DING 提醒（sendWithEffect）
+ * 目标为单个用户或 users:<userId>,<userId>，支持 mobile: / email: / name: 通讯录查询
+ */
+async function handleDingAction(
+  params: Record<string, unknown>,
+  account: ResolvedDingTalkAccount,
+  requesterSenderId?: string | null
+) {
+  const content = readStringParam(params, "message") ?? readStringParam(params, "text");
+  const target = (readStringParam(params, "to") ?? readStringParam(params, "target"))
+    ?.replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "");
+  if (!content || !target) {
+    throw new Error("DingTalk sendWithEffect requires message (the DING content) and target (a userId or users:<userId>,<userId>).");
+  }
+  const effect = (readStringParam(params, "effectId") ?? readStringParam(params, "effect") ?? "app").toLowerCase();
+  const type = DING_EFFECTS[effect];
+  if (!type) {
+    throw new Error(`DingTalk sendWithEffect effect must be one of app, sms or call (got "${effect}").`);
+  }
+  if (isGroupTarget(target) || /^dept:/i.test(target)) {
+    throw new Error("DingTalk DING can only be sent to users, not groups or departments.");
+  }
+
+  const members = /^users:/i.test(target) ? target.slice("users:".length).split(/[,，\s]+/) : [target];
+  const userIds = await resolveMemberIds(members, account);
+  const result = await sendDing({ account, userIds, content, type, requesterId: requesterSenderId });
+  return jsonResult({ ok: true, ...result });
+}
+
+/**
+ * 场景群管理（建群、增删成员、改群名、查看成员）
+ * 需要开启 actions.groups，建群还需要场景群模板 ID
+ */
+async function handleGroupAction(
+  action: (typeof GROUP_ACTIONS)[number],
+  params: Record<string, unknown>,
+  account: ResolvedDingTalkAccount
+) {
+  if (action === "channel-create") {
+    const title = readStringParam(params, "title") ?? readStringParam(params, "name");
+    if (!title) {
+      throw new Error("DingTalk channel-create requires title (the group name).");
+    }
+    const templateId = readStringParam(params, "templateId") ?? account.sceneGroups.templateId;
+    if (!templateId) {
+      throw new Error(`DingTalk channel-create requires a scene group template: set channels.${PLUGIN_ID}.sceneGroups.templateId or pass templateId.`);
+    }
+    const userIds = await readMemberIds(params, ["members", "participants", "userIds"], account);
+    const [ownerUserId] = await readMemberIds(params, ["owner"], account);
+    const owner = ownerUserId ?? account.sceneGroups.ownerUserId ?? userIds[0];
+    if (!owner) {
+      throw new Error(`DingTalk channel-create requires an owner: pass owner or members, or set channels.${PLUGIN_ID}.sceneGroups.ownerUserId.`);
+    }
+    const subadminIds = await readMemberIds(params, ["admins"], account);
+
+    const result = await createSceneGroup({ title, templateId, ownerUserId: owner, userIds, subadminIds }, account);
+    return jsonResult({
+      ok: true,
+      ...result,
+      // 新群可以直接作为发送目标
+      target: `chat:${result.openConversationId}`,
+      title,
+      ownerUserId: owner,
+      memberUserIds: [...new Set([owner, ...userIds])],
+    });
+  }
+
+  const groupId = readGroupId(params);
+  if (!groupId) {
+    throw new Error(`DingTalk ${action} requires groupId (the openConversationId, or chat:<openConversationId>).`);
+  }
+
+  if (action === "addParticipant" || action === "removeParticipant") {
+    const userIds = await readMemberIds(params, ["participant", "participants", "userId", "userIds", "members"], account);
+    if (userIds.length === 0) {
+      throw new Error(`DingTalk ${action} requires participant (a userId, or mobile:/email:/name:).`);
+    }
+    if (action === "addParticipant") {
+      await addSceneGroupMembers(groupId, userIds, account);
+      return jsonResult({ ok: true, groupId, added: userIds });
+    }
+    await removeSceneGroupMembers(groupId, userIds, account);
+    return jsonResult({ ok: true, groupId, removed: userIds });
+  }
+
+  if (action === "renameGroup") {
+    const title = readStringParam(params, "title") ?? readStringParam(params, "name") ?? readStringParam(params, "displayName");
+    if (!title) {
+      throw new Error("DingTalk renameGroup requires title (the new group name).");
+    }
+    await updateSceneGroupTitle(groupId, title, account);
+    return jsonResult({ ok: true, groupId, title });
+  }
+
+  const info = await getSceneGroupInfo(groupId, account);
+  return jsonResult({ ok: true, target: `chat:${groupId}`, ...info });
+}
+
+/**
+ * 待办操作：topic-create 创建待办，topic-edit 更新或完成待办
+ * 动作名只能从 OpenClaw 的固定列表中选择，没有待办专用的名称，因此沿用 topic-*
+ */
+const TODO_ACTIONS = ["topic-create", "topic-edit"] as const;
+
+/** 当前会话（群聊时为 openConversationId） */
+function readCurrentGroupId(params: Record<string, unknown>, currentChannelId?: string): string | undefined {
+  const raw = (currentChannelId ?? readStringParam(params, "to") ?? readStringParam(params, "target"))
+    ?.replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "");
+  return raw && isGroupTarget(raw) ? extractTargetId(raw) : undefined;
+}
+
+/**
+ * 钉钉待办（创建、更新、完成）
+ * 执行人默认为请求者，可写当前群成员的名字；在群聊中创建时附带回到该群的链接
+ */
+async function handleTodoAction(
+  action: (typeof TODO_ACTIONS)[number],
+  params: Record<string, unknown>,
+  account: ResolvedDingTalkAccount,
+  ctx: { requesterSenderId?: string | null; currentChannelId?: string }
+) {
+  const groupId = readCurrentGroupId(params, ctx.currentChannelId);
+  const assignees = [
+    ...(readStringArrayParam(params, "assignees") ?? []),
+    ...(readStringArrayParam(params, "assignee") ?? []),
+  ].filter((value) => value.trim());
+  const executorUserIds = [...new Set(await Promise.all(assignees.map((value) => resolvePersonId(value, account, groupId))))];
+  const due = readStringParam(params, "due") ?? readStringParam(params, "dueTime");
+  const dueTime = due ? parseDueTime(due, account.todo.timeZone) : undefined;
+  const rawPriority = readStringParam(params, "priority");
+  const priority = rawPriority ? parseTodoPriority(rawPriority) : undefined;
+  const subject = readStringParam(params, "title") ?? readStringParam(params, "subject");
+  const description = readStringParam(params, "description") ?? readStringParam(params, "message");
+
+  if (action === "topic-create") {
+    if (!subject) {
+      throw new Error("DingTalk topic-create requires title (the todo subject).");
+    }
+    const creatorUserId = ctx.requesterSenderId ?? account.todo.creatorUserId ?? executorUserIds[0];
+    if (!creatorUserId) {
+      throw new Error(`DingTalk topic-create requires a creator: pass assignees, or set channels.${PLUGIN_ID}.todo.creatorUserId.`);
+    }
+    const task = await createTodoTask(
+      creatorUserId,
+      {
+        subject,
+        description,
+        dueTime,
+        priority,
+        executorUserIds,
+        detailUrl: groupId ? buildChatLink(account, groupId) : undefined,
+      },
+      account
+    );
+    rememberTodoTask(task.taskId, {
+      accountId: account.accountId,
+      creatorUserId: task.creatorUserId,
+      executorUserIds: task.executorUserIds,
+    });
+    return jsonResult({ ok: true, ...task });
+  }
+
+  // 不接受 messageId：它在其他操作中指消息 ID，混用会把消息 ID 当作待办 ID
+  const taskId = readStringParam(params, "taskId") ?? readStringParam(params, "topicId");
+  if (!taskId) {
+    throw new Error("DingTalk topic-edit requires taskId (the id returned by topic-create).");
+  }
+  const record = getTodoRecord(taskId, account.accountId);
+  let creatorUserId: string | undefined;
+  if (ctx.requesterSenderId) {
+    // 以记录的创建人身份调用，因此只允许创建人和执行人修改
+    if (!record) {
+      throw new Error(`DingTalk topic-edit: no record of task ${taskId} for this account; only todos created here can be edited.`);
+    }
+    if (ctx.requesterSenderId !== record.creatorUserId && !record.executorUserIds.includes(ctx.requesterSenderId)) {
+      throw new Error(`DingTalk topic-edit: ${ctx.requesterSenderId} is neither the creator nor an assignee of task ${taskId}.`);
+    }
+    creatorUserId = record.creatorUserId;
+  } else {
+    // 没有请求者（如定时任务）时才使用配置的默认创建人
+    creatorUserId = record?.creatorUserId ?? account.todo.creatorUserId;
+  }
+  if (!creatorUserId) {
+    throw new Error(`DingTalk topic-edit: no record of who created task ${taskId}; set channels.${PLUGIN_ID}.todo.creatorUserId.`);
+  }
+  const status = readStringParam(params, "status")?.toLowerCase();
+  const done = params.done === true || params.done === "true" || status === "done" || status === "completed"
+    ? true
+    : status === "todo" || status === "open" ? false : undefined;
+
+  await updateTodoTask(
+    creatorUserId,
+    taskId,
+    { subject, description, dueTime, priority, executorUserIds, done },
+    account
+  );
+  if (record && executorUserIds.length > 0) {
+    rememberTodoTask(taskId, { ...record, executorUserIds });
+  }
+  return jsonResult({ ok: true, taskId, ...(done !== undefined ? { done } : {}) });
+}
+
+/** 日程操作：event-create 创建日程，event-list 查询忙闲 */
+const CALENDAR_ACTIONS = ["event-create", "event-list"] as const;
+
+/** 日程默认时长 */
+const DEFAULT_EVENT_MINUTES = 60;
+
+/** 忙闲查询默认的时间范围 */
+const DEFAULT_FREE_BUSY_HOURS = 24;
+
+/** 一天的毫秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 读取日程参与人
+ * 未指定时使用请求者在群里触发本次操作的消息中 @ 的用户
+ */
+async function readAttendeeIds(
+  params: Record<string, unknown>,
+  account: ResolvedDingTalkAccount,
+  groupId: string | undefined,
+  requesterSenderId?: string | null
+): Promise<string[]> {
+  const values = [
+    ...(readStringArrayParam(params, "attendees") ?? []),
+    ...(readStringArrayParam(params, "participants") ?? []),
+  ].filter((value) => value.trim());
+  if (values.length > 0) {
+    return [...new Set(await Promise.all(values.map((value) => resolvePersonId(value, account, groupId))))];
+  }
+  return groupId && requesterSenderId ? getMessageMentions(account.accountId, groupId, requesterSenderId) : [];
+}
+
+/** 查询姓名（用于日程卡片，失败时显示 userId） */
+async function lookupNames(userIds: string[], account: ResolvedDingTalkAccount): Promise<Map<string, string>> {
+  const entries = await Promise.all(
+    userIds.map((userId) =>
+      getUserDetail(userId, account).then(
+        (user) => (user.name ? [userId, user.name] as const : null),
+        () => null
+      )
+    )
+  );
+  return new Map(entries.filter((entry) => entry !== null));
+}
+
+/**
+ * 钉钉日程（创建日程、查询忙闲）
+ * 以请求者的身份操作，参与人默认为触发消息中 @ 的用户；创建后把日程卡片发回原会话
+ */
+async function handleCalendarAction(
+  action: (typeof CALENDAR_ACTIONS)[number],
+  params: Record<string, unknown>,
+  account: ResolvedDingTalkAccount,
+  ctx: { requesterSenderId?: string | null; currentChannelId?: string }
+) {
+  const organizerUserId = ctx.requesterSenderId ?? account.calendar.organizerUserId;
+  if (!organizerUserId) {
+    throw new Error(`DingTalk ${action} requires an organizer: set channels.${PLUGIN_ID}.calendar.organizerUserId for runs without a sender.`);
+  }
+  const groupId = readCurrentGroupId(params, ctx.currentChannelId);
+  const attendeeUserIds = await readAttendeeIds(params, account, groupId, ctx.requesterSenderId);
+  const rawStart = readStringOrNumberParam(params, "start") ?? readStringOrNumberParam(params, "startTime");
+  const rawEnd = readStringOrNumberParam(params, "end") ?? readStringOrNumberParam(params, "endTime");
+
+  if (action === "event-list") {
+    const { start, end } = parseFreeBusyRange(rawStart, rawEnd, account.calendar.timeZone, DEFAULT_FREE_BUSY_HOURS * 60 * 60 * 1000);
+    if (end <= start) {
+      throw new Error("DingTalk event-list: end must be after start.");
+    }
+    const userIds = [...new Set([organizerUserId, ...attendeeUserIds])];
+    const range = { start, end };
+    const freeBusy = await queryFreeBusy(organizerUserId, userIds, range, account);
+    const minMinutes = readNumberParam(params, "durationMinutes") ?? readNumberParam(params, "duration");
+    const toIso = (time: number) => new Date(time).toISOString();
+    return jsonResult({
+      ok: true,
+      range: { start: toIso(start), end: toIso(end), text: formatTimeRange(range, account) },
+      timeZone: account.calendar.timeZone,
+      users: freeBusy.map((user) => ({
+        userId: user.userId,
+        busy: user.busy.map((slot) => ({ start: toIso(slot.start), end: toIso(slot.end), status: slot.status })),
+        ...(user.error ? { error: user.error } : {}),
+      })),
+      commonFree: findFreeWindows(freeBusy, range, minMinutes).map((window) => ({
+        start: toIso(window.start),
+        end: toIso(window.end),
+        text: formatTimeRange(window, account),
+      })),
+    });
+  }
+
+  const summary = readStringParam(params, "title") ?? readStringParam(params, "summary") ?? readStringParam(params, "name");
+  if (!summary || !rawStart) {
+    throw new Error("DingTalk event-create requires title and start (ISO 8601, `YYYY-MM-DD HH:mm`, or a date for an all-day event).");
+  }
+  const start = parseEventTime(rawStart, account.calendar.timeZone);
+  const isAllDay = start.dateOnly;
+  const minutes = readNumberParam(params, "durationMinutes") ?? readNumberParam(params, "duration");
+  // 全天日程的结束日不含在内：只写开始日期时为一天
+  const end = rawEnd
+    ? parseEventTime(rawEnd, account.calendar.timeZone).time + (isAllDay ? DAY_MS : 0)
+    : start.time + (isAllDay ? DAY_MS : (minutes ?? DEFAULT_EVENT_MINUTES) * 60 * 1000);
+  if (end <= start.time) {
+    throw new Error("DingTalk event-create: end must be after start.");
+  }
+  const description = readStringParam(params, "description") ?? readStringParam(params, "message");
+
+  const event = await createCalendarEvent(
+    organizerUserId,
+    {
+      summary,
+      description,
+      start: start.time,
+      end,
+      isAllDay,
+      attendeeUserIds,
+      location: readStringParam(params, "location"),
+    },
+    account
+  );
+
+  // 把日程卡片发回原会话（发送失败不影响日程本身）
+  const to = (ctx.currentChannelId ?? readStringParam(params, "to") ?? readStringParam(params, "target"))
+    ?.replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "");
+  let card: { messageId?: string; error?: string } | undefined;
+  if (account.calendar.sendCard && to) {
+    try {
+      const names = await lookupNames([event.organizerUserId, ...event.attendeeUserIds], account);
+      const result = await sendTextMessage(to, buildEventCard(event, account, names, description), { account });
+      card = { messageId: result.messageId };
+    } catch (err) {
+      logger.warn(`[日程] 日程卡片发送失败 | eventId: ${event.eventId} | to: ${to} | ${String(err)}`);
+      card = { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  return jsonResult({
+    ok: true,
+    ...event,
+    start: new Date(event.start).toISOString(),
+    end: new Date(event.end).toISOString(),
+    time: formatTimeRange(event, account),
+    ...(card ? { card } : {}),
+  });
+}
+
+/**
+ * 钉钉消息操作（message 工具的 action）
+ * send 由 outbound 处理，这里只实现渠道特有的操作
+ */
+export const dingtalkMessageActions: ChannelMessageActionAdapter = {
+  describeMessageTool: ({ cfg, accountId }) => {
+    const account = resolveDingTalkAccount({ cfg, accountId });
+    if (!account.enabled || !account.clientId?.trim() || !account.clientSecret?.trim()) {
+      return null;
+    }
+
+    const gate = createActionGate(account.actions);
+    const actions = new Set<ChannelMessageActionName>(["send"]);
+    // 撤回：message 工具使用 unsend，CLI（openclaw message delete）使用 delete
+    if (gate("unsend")) {
+      actions.add("unsend");
+      actions.add("delete");
+    }
+    // 已读状态查询（单聊主动消息）
+    if (gate("read")) actions.add("read");
+    // DING 提醒：配置了可被 DING 的用户时提供
+    if (isDingEnabled(account)) actions.add("sendWithEffect");
+    // 场景群管理会建群和改动成员，需要显式开启
+    if (gate("groups", false)) {
+      for (const action of GROUP_ACTIONS) actions.add(action);
+    }
+    // 待办会以用户的名义创建任务，需要显式开启
+    if (gate("todo", false)) {
+      for (const action of TODO_ACTIONS) actions.add(action);
+    }
+    // 日程会以用户的名义发出邀请，需要显式开启
+    if (gate("calendar", false)) {
+      for (const action of CALENDAR_ACTIONS) actions.add(action);
+    }
+    // 互动卡片依赖用户配置的模板，未配置模板时不暴露卡片相关能力
+    if (account.interactiveCardTemplateId) {
+      if (gate("edit")) actions.add("edit");
+      return { actions: [...actions], capabilities: ["interactive", "buttons"] };
+    }
+    return { actions: [...actions] };
+  },
+
+  supportsAction: ({ action }) => action !== "send",
+
+  extractToolSend: ({ args }) => extractToolSend(args, "sendMessage"),
+
+  handleAction: async ({ action, params, cfg, accountId, requesterSenderId, toolContext }) => {
+    const account = resolveDingTalkAccount({ cfg, accountId });
+
+    if (action === "sendWithEffect") {
+      return handleDingAction(params, account, requesterSenderId);
+    }
+
+    if (action === "edit") {
+      if (!account.interactiveCardTemplateId) {
+        throw new Error(`DingTalk edit requires an interactive card template; set channels.${PLUGIN_ID}.interactiveCardTemplateId.`);
+      }
+      if (!createActionGate(account.actions)("edit")) {
+        throw new Error(`DingTalk edit is disabled; set channels.${PLUGIN_ID}.actions.edit to true to enable it.`);
+      }
+      const messageId = readStringParam(params, "messageId");
+      const text = readStringParam(params, "text") ?? readStringParam(params, "message");
+      if (!messageId || !text) {
+        throw new Error("DingTalk edit requires messageId (the interactive card id) and text (the new card content).");
+      }
+      const title = readStringParam(params, "title");
+      const status = readStringParam(params, "status");
+
+      const cardParamMap: Record<string, string> = { markdown: text };
+      if (title) cardParamMap.title = title;
+      if (status !== undefined) cardParamMap.status = status;
+
+      const record = getInteractiveCardRecord(messageId);
+      if (!record) {
+        throw new Error("DingTalk edit: no interactive card was sent with this messageId (or it has expired).");
+      }
+      if (record.accountId !== account.accountId) {
+        throw new Error("DingTalk edit: this card was sent by another account.");
+      }
+      await updateCardData(messageId, cardParamMap, { account });
+      return jsonResult({ ok: true, edited: messageId });
+    }
+
+    if (action === "unsend" || action === "delete") {
+      if (!createActionGate(account.actions)("unsend")) {
+        throw new Error(`DingTalk unsend is disabled; set channels.${PLUGIN_ID}.actions.unsend to true to enable it.`);
+      }
+      const messageIds = readStringArrayParam(params, "messageIds") ?? [];
+      const messageId = readStringParam(params, "messageId");
+      if (messageId) messageIds.push(messageId);
+      if (messageIds.length === 0) {
+        throw new Error("DingTalk unsend requires messageId (the id returned when the message was sent).");
+      }
+      const result = await recallSentMessages({
+        account,
+        messageIds: [...new Set(messageIds)],
+        fallbackTo: readStringParam(params, "to") ?? readStringParam(params, "target"),
+      });
+      return jsonResult({ ok: Object.keys(result.failed).length === 0, ...result });
+    }
+
+    if (action === "read") {
+      if (!createActionGate(account.actions)("read")) {
+        throw new Error(`DingTalk read is disabled; set channels.${PLUGIN_ID}.actions.read to true to enable it.`);
+      }
+      const messageId = readStringParam(params, "messageId");
+      if (!messageId) {
+        throw new Error("DingTalk read requires messageId (the id returned by a one-to-one send) to query its read status.");
+      }
+      const record = await getSentMessage(messageId);
+      if (record && record.accountId !== account.accountId) {
+        throw new Error("DingTalk read: this message was sent by another account.");
+      }
+      const to = (record?.to ?? readStringParam(params, "to") ?? readStringParam(params, "target"))
+        ?.replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "");
+      if (!to) {
+        throw new Error("DingTalk read: no send record for this messageId, pass the recipient as to.");
+      }
+      if (isGroupTarget(to)) {
+        throw new Error("DingTalk read status is only available for one-to-one messages.");
+      }
+      const status = await queryReadReceipt(messageId, extractTargetId(to), account);
+      return jsonResult({
+        ok: true,
+        messageId,
+        allRead: status.unreadUserIds.length === 0 && status.readUserIds.length > 0,
+        ...status,
+      });
+    }
+
+    if ((GROUP_ACTIONS as readonly string[]).includes(action)) {
+      if (!createActionGate(account.actions)("groups", false)) {
+        throw new Error(`DingTalk group management is disabled; set channels.${PLUGIN_ID}.actions.groups to true to enable it.`);
+      }
+      return handleGroupAction(action as (typeof GROUP_ACTIONS)[number], params, account);
+    }
+
+    if ((TODO_ACTIONS as readonly string[]).includes(action)) {
+      if (!createActionGate(account.actions)("todo", false)) {
+        throw new Error(`DingTalk todos are disabled; set channels.${PLUGIN_ID}.actions.todo to true to enable them.`);
+      }
+      return handleTodoAction(action as (typeof TODO_ACTIONS)[number], params, account, {
+        requesterSenderId,
+        currentChannelId: toolContext?.currentChannelId,
+      });
+    }
+
+    if ((CALENDAR_ACTIONS as readonly string[]).includes(action)) {
+      if (!createActionGate(account.actions)("calendar", false)) {
+        throw new Error(`DingTalk calendar is disabled; set channels.${PLUGIN_ID}.actions.calendar to true to enable it.`);
+      }
+      return handleCalendarAction(action as (typeof CALENDAR_ACTIONS)[number], params, account, {
+        requesterSenderId,
+        currentChannelId: toolContext?.currentChannelId,
+      });
+    }
+
+    throw new Error(`Action ${action} is not supported for provider dingtalk.`);
+  },
+};
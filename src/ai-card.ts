@@ -0,0 +1,149 @@
+import crypto from "node:crypto";
+import type { ResolvedDingTalkAccount } from "./types.js";
+import { createAICard, updateCardData, streamAICard, AI_CARD_CONTENT_KEY, type AICardFlowStatus } from "./client.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/** 两次流式更新之间的最小间隔，避免触发卡片接口限流 */
+const STREAM_UPDATE_INTERVAL_MS = 500;
+
+/**
+ * AI 卡片流式回复会话
+ *
+ * 一轮对话对应一张卡片：
+ * 1. start：投放卡片（处理中）
+ * 2. update：收到增量文本时节流推送全量内容（输入中）
+ * 3. finish：推送最终内容并标记完成
+ *
+ * 卡片创建失败时会话进入 failed 状态，调用方应降级为普通消息发送。
+ */
+export interface AICardReplyStream {
+  /** 投放卡片，返回是否成功 */
+  start(): Promise<boolean>;
+  /** 更新卡片正文（截至目前的完整文本） */
+  update(text: string): void;
+  /**
+   * 以最终内容结束卡片
+   * @returns 是否已通过卡片送达；false 表示调用方需要降级发送
+   */
+  finish(text?: string): Promise<boolean>;
+  /** 卡片是否仍可继续更新 */
+  isActive(): boolean;
+}
+
+/**
+ * 创建 AI 卡片流式回复会话
+ * @param to - 发送目标（chat:<openConversationId> 或 userId）
+ */
+export function createAICardReplyStream(params: {
+  to: string;
+  account: ResolvedDingTalkAccount;
+}): AICardReplyStream {
+  const { to, account } = params;
+  const outTrackId = `${PLUGIN_ID}-${crypto.randomUUID()}`;
+
+  let state: "idle" | "active" | "failed" | "closed" = "idle";
+  let startPromise: Promise<boolean> | null = null;
+  let latestText = "";
+  let sentText = "";
+  let inputting = false;
+  let lastPushAt = 0;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let pushChain: Promise<void> = Promise.resolve();
+
+  const setStatus = (flowStatus: AICardFlowStatus, content?: string) => {
+    const cardParamMap: Record<string, string> = { flowStatus };
+    if (content !== undefined) {
+      cardParamMap[AI_CARD_CONTENT_KEY] = content;
+    }
+    return updateCardData(outTrackId, cardParamMap, { account });
+  };
+
+  /** 串行推送，保证卡片内容按顺序更新 */
+  const push = (text: string, isFinalize: boolean): Promise<void> => {
+    const next = pushChain.then(async () => {
+      if (!inputting) {
+        await setStatus("2");
+        inputting = true;
+      }
+      await streamAICard(outTrackId, text, { account, isFinalize });
+      sentText = text;
+      lastPushAt = Date.now();
+    });
+    pushChain = next.catch(() => undefined);
+    return next;
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer || state !== "active") return;
+    const delay = Math.max(0, STREAM_UPDATE_INTERVAL_MS - (Date.now() - lastPushAt));
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      if (state !== "active" || latestText === sentText) return;
+      push(latestText, false).catch((err) => {
+        logger.warn(`[AI 卡片] 流式更新失败 | outTrackId: ${outTrackId} | ${String(err)}`);
+      });
+    }, delay);
+  };
+
+  const start = () => {
+    if (!startPromise) {
+      startPromise = createAICard(to, outTrackId, { account })
+        .then(() => {
+          state = "active";
+          return true;
+        })
+        .catch((err) => {
+          logger.warn(`[AI 卡片] 创建失败，降级为普通消息: ${String(err)}`);
+          state = "failed";
+          return false;
+        });
+    }
+    return startPromise;
+  };
+
+  return {
+    start,
+
+    update: (text) => {
+      if (state === "failed" || state === "closed" || !text) return;
+      latestText = text;
+      void start().then((ok) => {
+        if (ok) scheduleFlush();
+      });
+    },
+
+    finish: async (text) => {
+      const ok = await start();
+      if (!ok || state !== "active") return false;
+
+      state = "closed";
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+      }
+
+      const finalText = text ?? latestText;
+      if (!finalText) {
+        // 没有任何内容（如 NO_REPLY），直接以失败状态收起卡片
+        await setStatus("5").catch((err) => {
+          logger.warn(`[AI 卡片] 更新状态失败 | outTrackId: ${outTrackId} | ${String(err)}`);
+        });
+        return true;
+      }
+
+      try {
+        await push(finalText, true);
+        await setStatus("3", finalText);
+        logger.log(`[AI 卡片] 回复完成 | outTrackId: ${outTrackId} | length: ${finalText.length}`);
+        return true;
+      } catch (err) {
+        logger.warn(`[AI 卡片] 结束卡片失败，降级为普通消息: ${String(err)}`);
+        await setStatus("5").catch(() => undefined);
+        return false;
+      }
+    },
+
+    isActive: () => state === "active",
+  };
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseEventTime, parseFreeBusyRange } from "./calendar.js";
+
+test("不带时区的日程时间按 calendar.timeZone 解析", () => {
+  assert.deepEqual(parseEventTime("2026-05-01 14:00", "Asia/Tokyo"), {
+    time: Date.parse("2026-05-01T14:00:00+09:00"),
+    dateOnly: false,
+  });
+  assert.deepEqual(parseEventTime("2026-05-01T14:00+08:00", "Asia/Tokyo"), {
+    time: Date.parse("2026-05-01T14:00:00+08:00"),
+    dateOnly: false,
+  });
+});
+
+test("只写日期时取日程时区当天正午", () => {
+  assert.deepEqual(parseEventTime("2026-05-01", "America/Los_Angeles"), {
+    time: Date.parse("2026-05-01T12:00:00-07:00"),
+    dateOnly: true,
+  });
+});
+
+test("忙闲查询只写日期时按整天计算", () => {
+  const timeZone = "Asia/Shanghai";
+  const dayStart = Date.parse("2026-05-01T00:00:00+08:00");
+  const nextDay = Date.parse("2026-05-02T00:00:00+08:00");
+  assert.deepEqual(parseFreeBusyRange("2026-05-01", undefined, timeZone, 3_600_000), { start: dayStart, end: nextDay });
+  assert.deepEqual(parseFreeBusyRange("2026-05-01", "2026-05-02", timeZone, 3_600_000), {
+    start: dayStart,
+    end: Date.parse("2026-05-03T00:00:00+08:00"),
+  });
+  assert.deepEqual(parseFreeBusyRange("2026-05-01 09:00", undefined, timeZone, 3_600_000), {
+    start: Date.parse("2026-05-01T09:00:00+08:00"),
+    end: Date.parse("2026-05-01T10:00:00+08:00"),
+  });
+});
@@ -0,0 +1,158 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import type { BusySlot, CalendarEvent, UserFreeBusy } from "./client.js";
+import { parseDueTime, parseLocalDateTime, zonedTimeToEpoch } from "./todo.js";
+
+/**
+ * 日程操作的参数解析和结果整理
+ *
+ * 时间接受 ISO 8601、`YYYY-MM-DD HH:mm` 和时间戳，只写日期时视为全天；
+ * 忙闲查询在各参与人忙碌时段之外计算共同空闲时段，日程创建后生成发回会话的日程卡片。
+ */
+
+/** 共同空闲时段默认的最短时长 */
+const DEFAULT_MIN_FREE_MINUTES = 30;
+
+/** 最多返回的共同空闲时段数 */
+const MAX_FREE_WINDOWS = 20;
+
+/** 只写日期时取当天的时刻（时） */
+const DATE_ONLY_EVENT_HOUR = 12;
+
+/** 一天的毫秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 日程时间 */
+export interface EventTime {
+  /** 毫秒时间戳（只写日期时为日程时区当天正午） */
+  time: number;
+  /** 是否只写了日期 */
+  dateOnly: boolean;
+}
+
+/**
+ * 解析日程时间
+ * @param timeZone - 不带时区的时间按该时区解析（calendar.timeZone）
+ * @returns 无法解析时抛出错误
+ */
+export function parseEventTime(raw: string | number, timeZone: string): EventTime {
+  if (typeof raw === "string") {
+    const local = parseLocalDateTime(raw.trim(), timeZone, DATE_ONLY_EVENT_HOUR);
+    if (local) return local;
+  }
+  return { time: parseDueTime(raw, timeZone), dateOnly: false };
+}
+
+/** 某一时刻在指定时区的当天 0 点（dayOffset 为相对天数） */
+function startOfLocalDay(time: number, timeZone: string, dayOffset = 0): number {
+  const [year, month, day] = new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .format(time)
+    .split("-")
+    .map(Number);
+  return zonedTimeToEpoch({ year, month, day: day + dayOffset }, timeZone);
+}
+
+/**
+ * 解析忙闲查询的时间范围
+ * 只写日期时按整天计算：开始日期从当天 0 点起，结束日期到次日 0 点止；
+ * 未写开始时间时从现在起，未写结束时间时开始日期查到当天结束，其他情况查 defaultMs
+ * @returns 无法解析时抛出错误
+ */
+export function parseFreeBusyRange(
+  rawStart: string | number | undefined,
+  rawEnd: string | number | undefined,
+  timeZone: string,
+  defaultMs: number
+): { start: number; end: number } {
+  const startTime = rawStart !== undefined ? parseEventTime(rawStart, timeZone) : undefined;
+  const start = !startTime ? Date.now() : startTime.dateOnly ? startOfLocalDay(startTime.time, timeZone) : startTime.time;
+  if (rawEnd === undefined) {
+    return { start, end: startTime?.dateOnly ? startOfLocalDay(startTime.time, timeZone, 1) : start + defaultMs };
+  }
+  const endTime = parseEventTime(rawEnd, timeZone);
+  return { start, end: endTime.dateOnly ? startOfLocalDay(endTime.time, timeZone, 1) : endTime.time };
+}
+
+/**
+ * 计算时间范围内所有人都空闲的时段
+ * 暂定（tentative）的时段也视为忙碌；查询失败的用户不参与计算
+ */
+export function findFreeWindows(
+  freeBusy: UserFreeBusy[],
+  range: { start: number; end: number },
+  minMinutes = DEFAULT_MIN_FREE_MINUTES
+): Array<{ start: number; end: number }> {
+  const busy: BusySlot[] = freeBusy
+    .filter((user) => !user.error)
+    .flatMap((user) => user.busy)
+    .filter((slot) => slot.end > range.start && slot.start < range.end)
+    .sort((a, b) => a.start - b.start);
+
+  const windows: Array<{ start: number; end: number }> = [];
+  let cursor = range.start;
+  for (const slot of busy) {
+    if (slot.start > cursor) windows.push({ start: cursor, end: slot.start });
+    cursor = Math.max(cursor, slot.end);
+  }
+  if (cursor < range.end) windows.push({ start: cursor, end: range.end });
+
+  return windows.filter((w) => w.end - w.start >= minMinutes * 60 * 1000).slice(0, MAX_FREE_WINDOWS);
+}
+
+/** 按日程时区格式化时间，如 5月1日周五 14:00 */
+function formatTime(time: number, timeZone: string, withTime: boolean): string {
+  return new Intl.DateTimeFormat("zh-CN", {
+    timeZone,
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+    ...(withTime ? { hour: "2-digit", minute: "2-digit", hour12: false } : {}),
+  }).format(time);
+}
+
+/** 时间段的展示文本（同一天的结束时间只写时刻） */
+export function formatTimeRange(
+  range: { start: number; end: number; isAllDay?: boolean },
+  account: ResolvedDingTalkAccount
+): string {
+  const { timeZone } = account.calendar;
+  if (range.isAllDay) {
+    // 全天日程的结束日不含在内
+    const last = Math.max(range.start, range.end - DAY_MS);
+    const startText = formatTime(range.start, timeZone, false);
+    const endText = formatTime(last, timeZone, false);
+    return startText === endText ? `${startText} 全天` : `${startText} - ${endText} 全天`;
+  }
+  const startText = formatTime(range.start, timeZone, true);
+  const sameDay = formatTime(range.start, timeZone, false) === formatTime(range.end, timeZone, false);
+  const endText = sameDay
+    ? new Intl.DateTimeFormat("zh-CN", { timeZone, hour: "2-digit", minute: "2-digit", hour12: false }).format(range.end)
+    : formatTime(range.end, timeZone, true);
+  return `${startText} - ${endText}`;
+}
+
+/**
+ * 日程卡片（Markdown），创建日程后发回原会话
+ * @param names - userId -> 姓名（未知时显示 userId）
+ */
+export function buildEventCard(
+  event: CalendarEvent,
+  account: ResolvedDingTalkAccount,
+  names: Map<string, string>,
+  description?: string
+): string {
+  const nameOf = (userId: string) => names.get(userId) ?? userId;
+  const lines = [
+    `### 📅 ${event.summary}`,
+    "",
+    `- **时间**：${formatTimeRange(event, account)}`,
+    ...(event.location ? [`- **地点**：${event.location}`] : []),
+    `- **组织者**：${nameOf(event.organizerUserId)}`,
+    ...(event.attendeeUserIds.length > 0
+      ? [`- **参与人**：${event.attendeeUserIds.map(nameOf).join("、")}`]
+      : []),
+    ...(description ? ["", description] : []),
+    "",
+    "日程邀请已发送，请在钉钉日历中查看。",
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,243 @@
+import type { ActionCardMessage, FeedCardLink, LinkMessage, ReplyBody } from "./types.js";
+import {
+  sendActionCardMessage,
+  sendFeedCardMessage,
+  sendLinkMessage,
+  buildActionCardReplyBody,
+  buildFeedCardReplyBody,
+  buildLinkReplyBody,
+  type SendMessageOptions,
+  type SendMessageResult,
+} from "./client.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/**
+ * 回复中的卡片声明
+ *
+ * Agent 可以通过两种方式让回复以卡片形式发送：
+ *
+ * 1. 在回复文本中使用围栏代码块（语言标记为 dingtalk-actioncard / dingtalk-feedcard / dingtalk-link）：
+ *
+ * ```dingtalk-actioncard
+ * { "title": "P1 告警", "text": "...", "buttons": [{ "title": "打开手册", "url": "https://..." }] }
+ * ```
+ *
+ * ```dingtalk-feedcard
+ * { "links": [{ "title": "...", "messageURL": "https://...", "picURL": "https://..." }] }
+ * ```
+ *
+ * ```dingtalk-link
+ * { "title": "...", "text": "...", "messageUrl": "https://...", "picUrl": "https://..." }
+ * ```
+ *
+ * 2. 结构化回复：payload.channelData.ddingtalk.actionCard / feedCard / link
+ */
+export type ReplyCard =
+  | { kind: "actionCard"; card: ActionCardMessage }
+  | { kind: "feedCard"; links: FeedCardLink[] }
+  | { kind: "link"; link: LinkMessage };
+
+const CARD_BLOCK_PATTERN = /```dingtalk-(actioncard|feedcard|link)[^\S\n]*\n([\s\S]*?)\n?```/gi;
+
+/** 将任意输入解析为 ActionCard（字段缺失时返回 null） */
+function parseActionCard(raw: unknown): ActionCardMessage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+
+  const buttons: ActionCardMessage["buttons"] = [];
+  if (Array.isArray(obj.buttons)) {
+    for (const btn of obj.buttons) {
+      const b = (btn ?? {}) as Record<string, unknown>;
+      const title = typeof b.title === "string" ? b.title.trim() : "";
+      const url = typeof b.url === "string" ? b.url.trim() : "";
+      if (title && url) buttons.push({ title, url });
+    }
+  }
+  // 兼容钉钉原生单按钮字段
+  if (buttons.length === 0 && typeof obj.singleTitle === "string" && typeof obj.singleURL === "string") {
+    buttons.push({ title: obj.singleTitle, url: obj.singleURL });
+  }
+  if (buttons.length === 0) return null;
+
+  const text = typeof obj.text === "string" ? obj.text : "";
+  const title = typeof obj.title === "string" && obj.title.trim()
+    ? obj.title.trim()
+    : text.trim().split("\n")[0]?.slice(0, 20) || buttons[0].title;
+
+  return {
+    title,
+    text,
+    buttons,
+    orientation: obj.orientation === "horizontal" ? "horizontal" : "vertical",
+  };
+}
+
+/** 将任意输入解析为 FeedCard 链接列表（无有效链接时返回 null） */
+function parseFeedCard(raw: unknown): FeedCardLink[] | null {
+  const list = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === "object" && Array.isArray((raw as { links?: unknown }).links)
+      ? (raw as { links: unknown[] }).links
+      : null;
+  if (!list) return null;
+
+  const links: FeedCardLink[] = [];
+  for (const item of list) {
+    const l = (item ?? {}) as Record<string, unknown>;
+    const title = typeof l.title === "string" ? l.title.trim() : "";
+    const messageURL = typeof l.messageURL === "string" ? l.messageURL.trim() : "";
+    if (!title || !messageURL) continue;
+    links.push({
+      title,
+      messageURL,
+      picURL: typeof l.picURL === "string" && l.picURL.trim() ? l.picURL.trim() : undefined,
+    });
+  }
+  return links.length > 0 ? links : null;
+}
+
+/** 将任意输入解析为链接消息（兼容钉钉原生的 messageURL / picURL 写法，字段缺失时返回 null） */
+function parseLink(raw: unknown): LinkMessage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      if (typeof obj[key] === "string" && (obj[key] as string).trim()) return (obj[key] as string).trim();
+    }
+    return "";
+  };
+
+  const title = pick("title");
+  const messageUrl = pick("messageUrl", "messageURL", "url");
+  if (!title || !messageUrl) return null;
+  const picUrl = pick("picUrl", "picURL");
+  return { title, text: pick("text") || title, messageUrl, ...(picUrl ? { picUrl } : {}) };
+}
+
+/**
+ * 从回复文本中提取卡片代码块
+ * 解析失败的代码块原样保留在文本中
+ * @returns 去除卡片代码块后的文本，以及解析出的卡片
+ */
+export function extractReplyCards(text: string): { text: string; cards: ReplyCard[] } {
+  if (!text.includes("```dingtalk-")) {
+    return { text, cards: [] };
+  }
+
+  const cards: ReplyCard[] = [];
+  const rest = text.replace(CARD_BLOCK_PATTERN, (block, kind: string, body: string) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(body);
+    } catch (err) {
+      logger.warn(`[卡片] ${kind} 代码块 JSON 解析失败，按普通文本发送: ${String(err)}`);
+      return block;
+    }
+
+    if (kind.toLowerCase() === "actioncard") {
+      const card = parseActionCard(raw);
+      if (card) {
+        cards.push({ kind: "actionCard", card });
+        return "";
+      }
+    } else if (kind.toLowerCase() === "link") {
+      const link = parseLink(raw);
+      if (link) {
+        cards.push({ kind: "link", link });
+        return "";
+      }
+    } else {
+      const links = parseFeedCard(raw);
+      if (links) {
+        cards.push({ kind: "feedCard", links });
+        return "";
+      }
+    }
+    logger.warn(`[卡片] ${kind} 代码块缺少必要字段，按普通文本发送`);
+    return block;
+  });
+
+  return { text: cards.length > 0 ? rest.replace(/\n{3,}/g, "\n\n").trim() : text, cards };
+}
+
+/**
+ * 从结构化回复的 channelData 中读取卡片
+ * 格式：{ ddingtalk: { actionCard?: {...}, feedCard?: { links: [...] }, link?: {...} } }
+ */
+export function readChannelDataCards(channelData?: Record<string, unknown>): ReplyCard[] {
+  const data = channelData?.[PLUGIN_ID] as { actionCard?: unknown; feedCard?: unknown; link?: unknown } | undefined;
+  if (!data || typeof data !== "object") return [];
+
+  const cards: ReplyCard[] = [];
+  const card = parseActionCard(data.actionCard);
+  if (card) cards.push({ kind: "actionCard", card });
+  const links = parseFeedCard(data.feedCard);
+  if (links) cards.push({ kind: "feedCard", links });
+  const link = parseLink(data.link);
+  if (link) cards.push({ kind: "link", link });
+  return cards;
+}
+
+/**
+ * 将卡片之外的说明文本并入第一张没有正文的 ActionCard
+ * @returns 仍需单独发送的文本（已并入卡片时为空字符串）
+ */
+export function attachReplyText(cards: ReplyCard[], text: string): string {
+  if (!text) return text;
+  const target = cards.find((c) => c.kind === "actionCard" && !c.card.text.trim());
+  if (target && target.kind === "actionCard") {
+    target.card.text = text;
+    return "";
+  }
+  return text;
+}
+
+/** 卡片的纯 Markdown 表示（用于不支持按钮的场景，如 AI 卡片收尾） */
+export function renderReplyCardText(card: ReplyCard): string {
+  if (card.kind === "actionCard") {
+    return card.card.text.trim() || `**${card.card.title}**`;
+  }
+  if (card.kind === "link") {
+    return `[${card.link.title}](${card.link.messageUrl})`;
+  }
+  return card.links.map((link) => `- [${link.title}](${link.messageURL})`).join("\n");
+}
+
+/** 卡片对应的 webhook 消息体（sessionWebhook 回复使用） */
+export function replyCardToBody(card: ReplyCard): ReplyBody {
+  switch (card.kind) {
+    case "actionCard":
+      return buildActionCardReplyBody(card.card);
+    case "feedCard":
+      return buildFeedCardReplyBody(card.links);
+    case "link":
+      return buildLinkReplyBody(card.link);
+  }
+}
+
+/**
+ * 主动发送卡片列表（自动路由群聊/单聊）
+ * @returns 最后一条消息的发送结果
+ */
+export async function sendReplyCards(
+  to: string,
+  cards: ReplyCard[],
+  options: SendMessageOptions
+): Promise<SendMessageResult | undefined> {
+  let result: SendMessageResult | undefined;
+  for (const card of cards) {
+    switch (card.kind) {
+      case "actionCard":
+        result = await sendActionCardMessage(to, card.card, options);
+        break;
+      case "feedCard":
+        result = await sendFeedCardMessage(to, card.links, options);
+        break;
+      case "link":
+        result = await sendLinkMessage(to, { ...options, ...card.link });
+        break;
+    }
+  }
+  return result;
+}
@@ -12,6 +12,8 @@ import type { ChannelStatusIssue, ChannelAccountSnapshot } from "openclaw/plugin
 import { loadWebMedia } from "openclaw/plugin-sdk/web-media";
 import { buildOutboundMediaLoadOptions } from "openclaw/plugin-sdk/media-runtime";
 import { missingTargetError } from "openclaw/plugin-sdk/channel-feedback";
+import { resolveInteractiveTextFallback } from "openclaw/plugin-sdk/interactive-runtime";
+import { resolvePayloadMediaUrls, sendTextMediaPayload } from "openclaw/plugin-sdk/reply-payload";
 import path from "path";
 import { getDingTalkRuntime } from "./runtime.js";
 import {
@@ -20,13 +22,30 @@ import {
   resolveDingTalkAccount,
 } from "./accounts.js";
 import { DingTalkConfigSchema, type DingTalkConfig, type ResolvedDingTalkAccount } from "./types.js";
-import { sendTextMessage, sendImageMessage, sendFileMessage, sendAudioMessage, sendVideoMessage, uploadMedia, probeDingTalkBot, inferMediaType } from "./client.js";
+import { sendTextMessage, sendFileMessage, sendAudioMessage, sendVideoMessage, uploadMedia, probeDingTalkBot, inferMediaType, type SendMessageResult } from "./client.js";
+import { extractReplyCards, readChannelDataCards, attachReplyText, sendReplyCards, type ReplyCard } from "./card-block.js";
+import { buildInteractiveCard, sendInteractiveReplyCard } from "./interactive-card.js";
+import { dingtalkMessageActions } from "./actions.js";
+import { isDingEnabled } from "./ding.js";
+import { isLargeFileEnabled, shouldSendAsLargeFile, sendLargeFile } from "./large-file.js";
+import { trackReadReceipt } from "./read-receipts.js";
+import { chunkDingTalkMarkdown } from "./markdown.js";
+import { getDingTalkRuntimeState, type DingTalkRuntimeState } from "./runtime-state.js";
 import { logger } from "./logger.js";
 import { monitorDingTalkProvider } from "./monitor.js";
 import { PLUGIN_ID } from "./constants.js";
-import { hasFFmpeg, probeMediaBuffer } from "./ffmpeg.js";
+import { hasFFmpeg, probeMediaBuffer, transcodeForDingTalk } from "./ffmpeg.js";
+import { normalizeImage, sendImage } from "./image.js";
 import { dingtalkSetupAdapter } from "./setup-core.js";
 import { dingtalkSetupWizard } from "./setup-surface.js";
+import {
+  parseDirectoryQuery,
+  formatDirectoryQuery,
+  peekDirectoryLookup,
+  describeLookupFailure,
+  resolveDirectoryTarget,
+  resolveDirectoryEntries,
+} from "./directory.js";
 
 // ======================= Target Normalization =======================
 
@@ -50,6 +69,9 @@ function isDingTalkUserId(id: string): boolean {
  * - ddingtalk:<id>
  * - chat:<groupId>（直接群聊格式）
  * - user:<userId>
+ * - users:<userId>,<userId>,...（多人，只有一个用户时转为单个用户 ID）
+ * - dept:<deptId>（部门及子部门的所有成员）
+ * - mobile:<手机号> / email:<邮箱> / name:<姓名>（发送前通过通讯录查找用户 ID）
  */
 function normalizeDingTalkTarget(target: string): string | undefined {
   const trimmed = target.trim();
@@ -69,6 +91,28 @@ function normalizeDingTalkTarget(target: string): string | undefined {
     return trimmed.slice(5) ? trimmed : undefined;
   }
 
+  // 多人目标
+  const withoutPluginPrefix = trimmed.replace(new RegExp(`^${PLUGIN_ID}:`, "i"), "");
+  const usersMatch = /^users:(.*)$/i.exec(withoutPluginPrefix);
+  if (usersMatch) {
+    const ids = [...new Set(usersMatch[1].split(/[,，\s]+/).filter(Boolean))];
+    if (ids.length === 0 || !ids.every(isDingTalkUserId)) return undefined;
+    return ids.length === 1 ? ids[0] : `users:${ids.join(",")}`;
+  }
+  const deptMatch = /^dept:(\d+)$/i.exec(withoutPluginPrefix);
+  if (deptMatch) {
+    return `dept:${deptMatch[1]}`;
+  }
+
+  // 通讯录查询
+  const directoryQuery = parseDirectoryQuery(withoutPluginPrefix);
+  if (directoryQuery) {
+    return formatDirectoryQuery(directoryQuery);
+  }
+  if (/^(mobile|email|name):/i.test(withoutPluginPrefix)) {
+    return undefined;
+  }
+
   // 显式用户格式始终按用户 ID 处理，避免 user:cid... 被误判为群聊
   const userPrefixPattern = new RegExp(`^${PLUGIN_ID}:user:`, "i");
   const explicitUserId = userPrefixPattern.test(trimmed)
@@ -95,6 +139,52 @@ function normalizeDingTalkTarget(target: string): string | undefined {
   return undefined;
 }
 
+/**
+ * 用缓存的通讯录查找结果替换目标
+ * resolveTarget 是同步接口，未缓存的查询留到发送时解析
+ */
+function applyCachedDirectoryLookup(
+  target: string,
+  accountId: string
+): { ok: true; to: string } | { ok: false; error: Error } {
+  const query = parseDirectoryQuery(target);
+  if (!query) return { ok: true, to: target };
+  const cached = peekDirectoryLookup(accountId, query);
+  if (!cached) return { ok: true, to: target };
+  if (cached.status === "resolved") return { ok: true, to: cached.userId };
+  return { ok: false, error: new Error(`DingTalk: ${describeLookupFailure(query, cached)}`) };
+}
+
+/**
+ * 发送文本 + 卡片
+ * 说明文本优先并入没有正文的 ActionCard，否则先单独发送文本再发送卡片
+ */
+async function sendTextWithCards(
+  to: string,
+  text: string,
+  cards: ReplyCard[],
+  account: ResolvedDingTalkAccount
+): Promise<SendMessageResult> {
+  const pendingText = attachReplyText(cards, text);
+  let result: SendMessageResult = { messageId: "", chatId: to };
+  if (pendingText.trim()) {
+    result = await sendTextMessage(to, pendingText, { account });
+  }
+  return (await sendReplyCards(to, cards, { account })) ?? result;
+}
+
+/** 状态快照中附带的钉钉特有运行时信息 */
+function pickDingTalkRuntimeExtras(state: DingTalkRuntimeState | undefined) {
+  return {
+    retryCount: state?.retryCount ?? 0,
+    lastThrottleAt: state?.lastThrottleAt ?? null,
+    readReceipts: state?.readReceipts ?? {},
+    queueDepth: state?.queueDepth ?? 0,
+    queuedConversations: state?.queuedConversations ?? {},
+    dings: state?.dings ?? {},
+  };
+}
+
 // DingTalk channel metadata
 const meta = {
   id: PLUGIN_ID,
@@ -115,10 +205,11 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
   capabilities: {
     chatTypes: ["direct", "group"],
     reactions: false,
+    unsend: true,
     threads: false,
     media: true,
     nativeCommands: false,
-    blockStreaming: true, // 钉钉不支持流式消息
+    blockStreaming: true, // 原生消息不支持流式，replyMode=card 时通过 AI 卡片流式更新
   },
   commands: {
     enforceOwnerForCommands: true,
@@ -164,8 +255,14 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
       configured: Boolean(account.clientId?.trim() && account.clientSecret?.trim()),
       tokenSource: account.tokenSource,
     }),
-    resolveAllowFrom: ({ cfg, accountId }) =>
-      resolveDingTalkAccount({ cfg, accountId }).allowFrom.map((entry) => String(entry)),
+    // 通讯录查询条目已缓存时替换为用户 ID（缓存由监听器启动时和发送时的查找写入）
+    resolveAllowFrom: ({ cfg, accountId }) => {
+      const account = resolveDingTalkAccount({ cfg, accountId });
+      return account.allowFrom.map((entry) => {
+        const result = applyCachedDirectoryLookup(String(entry), account.accountId);
+        return result.ok ? result.to : String(entry);
+      });
+    },
     formatAllowFrom: ({ allowFrom }) =>
       allowFrom
         .map((entry) => String(entry).trim())
@@ -204,14 +301,76 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
         }
         return Boolean(normalizeDingTalkTarget(trimmed));
       },
-      hint: "<userId> or chat:<openConversationId>",
+      hint: "<userId>, chat:<openConversationId>, users:<userId>,<userId>, dept:<deptId>, mobile:<mobile>, email:<email> or name:<name>",
     },
   },
 
+  resolver: {
+    /**
+     * 批量解析用户/群聊目标
+     * 用户目标支持 mobile: / email: / name: 通讯录查询，有歧义时在 note 中列出候选人
+     */
+    resolveTargets: async ({ cfg, accountId, inputs, kind }) => {
+      if (kind === "group") {
+        return inputs.map((input) => {
+          const normalized = normalizeDingTalkTarget(input);
+          return normalized?.startsWith("chat:")
+            ? { input, resolved: true, id: normalized }
+            : { input, resolved: false, note: "钉钉群聊目标格式为 chat:<openConversationId>" };
+        });
+      }
+      const account = resolveDingTalkAccount({ cfg, accountId });
+      const normalized = inputs.map((input) => normalizeDingTalkTarget(input) ?? input);
+      const resolutions = await resolveDirectoryEntries(account, normalized);
+      return resolutions.map((resolution, index) => {
+        const input = inputs[index];
+        if (!normalizeDingTalkTarget(input)) {
+          return { input, resolved: false, note: "无法识别的钉钉用户目标" };
+        }
+        return resolution.resolved
+          ? { input, resolved: true, id: resolution.id! }
+          : { input, resolved: false, note: resolution.note };
+      });
+    },
+  },
+
+  agentPrompt: {
+    messageToolHints: ({ cfg, accountId }) => [
+      "- DingTalk ActionCard (buttons): put a ```dingtalk-actioncard code block in the reply with JSON `{ \"title\", \"text\", \"buttons\": [{ \"title\", \"url\" }], \"orientation\"?: \"vertical\" | \"horizontal\" }` (1-5 buttons; horizontal only with 2).",
+      "- DingTalk FeedCard (link list): put a ```dingtalk-feedcard code block with JSON `{ \"links\": [{ \"title\", \"messageURL\", \"picURL\"? }] }`.",
+      "- DingTalk link message (title, summary and thumbnail): put a ```dingtalk-link code block with JSON `{ \"title\", \"text\", \"messageUrl\", \"picUrl\"? }`.",
+      "- DingTalk multi-recipient sends: use target `users:<userId>,<userId>` or `dept:<deptId>` (department and its sub-departments); the send result lists each recipient's status.",
+      "- DingTalk directory lookup: when only a person's mobile, email or name is known, use target `mobile:<mobile>`, `email:<email>` or `name:<name>`; if a name matches several people the send fails and lists the candidates, pick one by userId.",
+      "- DingTalk recall: action=unsend with the messageId returned by a proactive send recalls that message (replies delivered through the session webhook have no messageId and cannot be recalled).",
+      "- DingTalk read receipts: action=read with the messageId of a one-to-one send returns who has read it and who has not.",
+      ...(isDingEnabled(resolveDingTalkAccount({ cfg, accountId }))
+        ? ["- DingTalk DING (urgent alert that wakes people up): action=sendWithEffect with target `<userId>` or `users:<userId>,<userId>`, message, and effect `app` (in-app), `sms` or `call` (phone). Only configured recipients can be DINGed; use it for urgent on-call escalation, not routine messages."]
+        : []),
+      ...(resolveDingTalkAccount({ cfg, accountId }).actions.groups
+        ? ["- DingTalk scene groups: action=channel-create with title and members (userIds or mobile:/email:/name:) creates a group and returns target `chat:<openConversationId>`, which you can send to right away; addParticipant / removeParticipant / renameGroup / channel-info take groupId (the openConversationId) for groups created this way."]
+        : []),
+      ...(resolveDingTalkAccount({ cfg, accountId }).actions.todo
+        ? ["- DingTalk todos: action=topic-create with title, optional description, assignees (group members by name, userIds or mobile:/email:/name:; defaults to the requester), due (ISO 8601 or `YYYY-MM-DD HH:mm`) and priority (low/normal/high/urgent) creates a DingTalk todo and returns its taskId; in a group chat it links back to the group. action=topic-edit with taskId updates the same fields, and status `done` completes it."]
+        : []),
+      ...(resolveDingTalkAccount({ cfg, accountId }).actions.calendar
+        ? ["- DingTalk calendar: action=event-list with attendees (defaults to the users @-mentioned in the triggering group message), start and end returns everyone's busy slots and `commonFree` windows (at least durationMinutes long); action=event-create with title, start (ISO 8601 / `YYYY-MM-DD HH:mm`, or a date for all-day), end or durationMinutes, attendees, location and description creates the event on the requester's calendar, invites the attendees and posts an event card back to this conversation."]
+        : []),
+      ...(resolveDingTalkAccount({ cfg, accountId }).interactiveCardTemplateId
+        ? ["- DingTalk interactive cards: replies with `interactive` buttons are sent as cards; clicks come back as a `[卡片操作]` message with the actionId and form values. Use action=edit with the card messageId to update the card afterwards."]
+        : []),
+    ],
+  },
+
+  actions: dingtalkMessageActions,
+
   setup: dingtalkSetupAdapter,
   outbound: {
     deliveryMode: "direct",
-    chunker: (text, limit) => getDingTalkRuntime().channel.text.chunkMarkdownText(text, limit),
+    // 先转换为钉钉 Markdown 再分段，只在块之间断开，超长的单个块再按 Markdown 规则拆分
+    chunker: (text, limit) =>
+      chunkDingTalkMarkdown(text, limit, (block, blockLimit) =>
+        getDingTalkRuntime().channel.text.chunkMarkdownText(block, blockLimit)
+      ),
     textChunkLimit: 4000, // 钉钉文本消息长度限制
     /**
      * 解析发送目标
@@ -219,9 +378,17 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
      * - 用户 ID：直接是用户的 staffId
      * - 带前缀格式：ddingtalk:user:<userId>
      * - 群聊格式：chat:<openConversationId> 或 ddingtalk:chat:<openConversationId>
+     * - 多人格式：users:<userId>,<userId>,... 或 dept:<deptId>
+     * - 通讯录查询：mobile:<手机号> / email:<邮箱> / name:<姓名>
+     *   已缓存的查询直接替换为用户 ID，有歧义或未找到时返回错误（列出候选人）；
+     *   未缓存的查询原样返回，发送时再查找
      */
-    resolveTarget: ({ to, allowFrom, mode }) => {
+    resolveTarget: ({ cfg, to, allowFrom, accountId, mode }) => {
       const trimmed = to?.trim() ?? "";
+      const lookupAccountId = cfg
+        ? resolveDingTalkAccount({ cfg, accountId }).accountId
+        : accountId ?? DEFAULT_ACCOUNT_ID;
+      const resolved = (target: string) => applyCachedDirectoryLookup(target, lookupAccountId);
 
       // 如果目标是群聊格式，直接使用（群聊回复时 To 已经是 chat:xxx 格式）
       if (trimmed.startsWith("chat:") || trimmed.startsWith(`${PLUGIN_ID}:chat:`)) {
@@ -244,7 +411,7 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
 
         if (!normalizedTo) {
           if ((mode === "implicit" || mode === "heartbeat") && allowList.length > 0) {
-            return { ok: true, to: allowList[0] };
+            return resolved(allowList[0]);
           }
           return {
             ok: false,
@@ -256,25 +423,25 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
         }
 
         if (mode === "explicit") {
-          return { ok: true, to: normalizedTo };
+          return resolved(normalizedTo);
         }
 
         if (mode === "implicit" || mode === "heartbeat") {
           if (hasWildcard || allowList.length === 0) {
-            return { ok: true, to: normalizedTo };
+            return resolved(normalizedTo);
           }
           if (allowList.includes(normalizedTo)) {
-            return { ok: true, to: normalizedTo };
+            return resolved(normalizedTo);
           }
-          return { ok: true, to: allowList[0] };
+          return resolved(allowList[0]);
         }
 
-        return { ok: true, to: normalizedTo };
+        return resolved(normalizedTo);
       }
 
       // 没有指定目标
       if (allowList.length > 0) {
-        return { ok: true, to: allowList[0] };
+        return resolved(allowList[0]);
       }
 
       return {
@@ -285,116 +452,227 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
         ),
       };
     },
-    sendText: async ({ to, text, cfg, accountId }) => {
+    sendText: async ({ to: rawTo, text, cfg, accountId }) => {
       const account = resolveDingTalkAccount({ cfg, accountId });
-      const result = await sendTextMessage(to, text, { account });
+      const to = await resolveDirectoryTarget(rawTo, account);
+      // 文本中包含卡片代码块时，以原生卡片发送
+      const extracted = extractReplyCards(text);
+      const result = extracted.cards.length > 0
+        ? await sendTextWithCards(to, extracted.text, extracted.cards, account)
+        : await sendTextMessage(to, text, { account });
+      trackReadReceipt(result, to, account);
       return { channel: PLUGIN_ID, ...result };
     },
-    sendMedia: async ({ to, text, mediaUrl, cfg, accountId, mediaLocalRoots }) => {
+    /**
+     * 结构化回复（channelData / interactive）
+     * 支持 channelData.ddingtalk.actionCard / feedCard 卡片，其余内容按文本 + 媒体发送
+     */
+    sendPayload: async (rawCtx) => {
+      const { payload } = rawCtx;
+      const adapter = dingtalkPlugin.outbound!;
+      const account = resolveDingTalkAccount({ cfg: rawCtx.cfg, accountId: rawCtx.accountId });
+      const ctx = { ...rawCtx, to: await resolveDirectoryTarget(rawCtx.to, account) };
+
+      // 带按钮的结构化回复：配置了互动卡片模板时以互动卡片发送，按钮点击会回传给 Agent
+      const interactiveCard = account.interactiveCardTemplateId
+        ? buildInteractiveCard({ text: payload.text, interactive: payload.interactive })
+        : null;
+      if (interactiveCard) {
+        const cardResult = await sendInteractiveReplyCard(ctx.to, interactiveCard, { account });
+        if (resolvePayloadMediaUrls(payload).length === 0) {
+          return { channel: PLUGIN_ID, ...cardResult };
+        }
+        return sendTextMediaPayload({
+          channel: PLUGIN_ID,
+          ctx: { ...ctx, text: "", payload: { ...payload, text: "", interactive: undefined } },
+          adapter,
+        });
+      }
+
+      const text = resolveInteractiveTextFallback({
+        text: payload.text,
+        interactive: payload.interactive,
+      }) ?? "";
+      const extracted = extractReplyCards(text);
+      const cards = [...readChannelDataCards(payload.channelData), ...extracted.cards];
+
+      if (cards.length === 0) {
+        return sendTextMediaPayload({
+          channel: PLUGIN_ID,
+          ctx: { ...ctx, payload: { ...payload, text } },
+          adapter,
+        });
+      }
+
+      const cardResult = await sendTextWithCards(ctx.to, extracted.text, cards, account);
+      trackReadReceipt(cardResult, ctx.to, account);
+
+      if (resolvePayloadMediaUrls(payload).length === 0) {
+        return { channel: PLUGIN_ID, ...cardResult };
+      }
+      // 文本已随卡片发送，这里只补发媒体
+      return sendTextMediaPayload({
+        channel: PLUGIN_ID,
+        ctx: { ...ctx, text: "", payload: { ...payload, text: "" } },
+        adapter,
+      });
+    },
+    sendMedia: async ({ to: rawTo, text, mediaUrl, cfg, accountId, mediaLocalRoots }) => {
       // 没有媒体 URL，提前返回
       if (!mediaUrl) {
         logger.warn("[sendMedia] 没有 mediaUrl，跳过");
-        return { channel: PLUGIN_ID, messageId: "", chatId: to };
+        return { channel: PLUGIN_ID, messageId: "", chatId: rawTo };
       }
 
       const account = resolveDingTalkAccount({ cfg, accountId });
+      const to = await resolveDirectoryTarget(rawTo, account);
 
       try {
         logger.log(`准备发送媒体: ${mediaUrl}`);
 
         // 使用 OpenClaw 的 loadWebMedia 加载媒体（支持 URL、本地路径、file://、~ 等）
+        // 启用钉盘大文件发送时放宽加载上限（默认只能加载 100MB 以内的文件）
         const media = await loadWebMedia(
           mediaUrl,
-          buildOutboundMediaLoadOptions({ mediaLocalRoots }),
+          buildOutboundMediaLoadOptions({
+            mediaLocalRoots,
+            ...(isLargeFileEnabled(account) ? { maxBytes: account.largeFiles.maxBytes } : {}),
+          }),
         );
         const mimeType = media.contentType ?? "application/octet-stream";
         const mediaType = inferMediaType(mimeType);
 
         logger.log(`加载媒体成功 | type: ${mediaType} | mimeType: ${mimeType} | size: ${(media.buffer.length / 1024).toFixed(2)} KB`);
 
-        const fileName = media.fileName || path.basename(mediaUrl) || `file_${Date.now()}`;
+        let fileName = media.fileName || path.basename(mediaUrl) || `file_${Date.now()}`;
+        let buffer = media.buffer;
+        let uploadMimeType = mimeType;
+        let sendType = mediaType;
+
+        // 语音/视频：转码为钉钉支持的格式和大小，降低码率后仍超出上限时才降级为文件发送
+        if ((mediaType === "voice" || mediaType === "video") && hasFFmpeg()) {
+          try {
+            const transcoded = await transcodeForDingTalk(media.buffer, fileName, mediaType);
+            if (transcoded) {
+              ({ buffer, fileName } = transcoded);
+              uploadMimeType = transcoded.mimeType;
+            } else {
+              logger.warn(`[sendMedia] ${mediaType === "voice" ? "语音" : "视频"}无法压缩到钉钉大小上限内，降级为文件发送`);
+              sendType = "file";
+            }
+          } catch (transcodeErr) {
+            logger.warn(`[sendMedia] 转码失败，降级为文件发送: ${transcodeErr}`);
+            sendType = "file";
+          }
+        }
+        // 图片：转换钉钉不支持的格式、压缩超出上限的图片、去除位置信息，无法处理时降级为文件发送
+        let imageChanged = false;
+        if (mediaType === "image" && account.images.normalize) {
+          const normalized = await normalizeImage(media.buffer, fileName, mimeType, account.images);
+          if (normalized) {
+            ({ buffer, fileName } = normalized);
+            uploadMimeType = normalized.mimeType;
+            imageChanged = normalized.changed;
+          } else {
+            logger.warn("[sendMedia] 图片无法转换为钉钉支持的格式或大小，降级为文件发送");
+            sendType = "file";
+          }
+        }
         const ext = path.extname(fileName).slice(1) || "file";
 
-        // 上传到钉钉
-        const uploadResult = await uploadMedia(media.buffer, fileName, account, {
-          mimeType,
-          type: mediaType,
+        // 超出 media/upload 上限的文件：上传到钉盘后发送
+        if (shouldSendAsLargeFile(buffer.length, account)) {
+          const sendResult = await sendLargeFile(to, { buffer, fileName }, account);
+          if (text?.trim()) {
+            await sendTextMessage(to, text, { account });
+          }
+          trackReadReceipt(sendResult, to, account);
+          return { channel: PLUGIN_ID, ...sendResult };
+        }
+
+        const upload = () => uploadMedia(buffer, fileName, account, {
+          mimeType: uploadMimeType,
+          type: sendType,
         });
 
         let sendResult: { messageId: string; chatId: string };
 
-        if (mediaType === "image") {
-          // 图片使用 photoURL
-          sendResult = await sendImageMessage(to, uploadResult.url, { account });
+        if (sendType === "image") {
+          // 图片按 images.delivery 发送，消息中不会带 access_token
+          sendResult = await sendImage(to, { buffer, mimeType: uploadMimeType, sourceUrl: mediaUrl, changed: imageChanged, upload }, account);
           logger.log("发送图片消息成功");
-        } else if (mediaType === "voice" && hasFFmpeg()) {
-          // 语音：使用 ffprobe 获取时长，发送原生语音消息
-          try {
-            const probe = await probeMediaBuffer(media.buffer, fileName, "voice");
-            sendResult = await sendAudioMessage(to, uploadResult.mediaId, {
-              account,
-              duration: String(probe.duration),
-            });
-            logger.log(`发送语音消息成功 | duration: ${(probe.duration / 1000).toFixed(1)}s`);
-          } catch (probeErr) {
-            logger.warn(`[sendMedia] 语音探测失败，降级为文件发送: ${probeErr}`);
-            sendResult = await sendFileMessage(to, uploadResult.mediaId, fileName, ext, { account });
-            logger.log("发送语音消息成功（降级为文件形式）");
-          }
-        } else if (mediaType === "video" && hasFFmpeg()) {
-          // 视频：使用 ffprobe 获取时长和分辨率，提取封面，发送原生视频消息
-          try {
-            const probe = await probeMediaBuffer(media.buffer, fileName, "video");
-            const videoOpts: {
-              account: typeof account;
-              duration?: string;
-              picMediaId?: string;
-              width?: string;
-              height?: string;
-            } = { account };
-
-            if (probe.duration) {
-              videoOpts.duration = String(Math.floor(probe.duration / 1000));
-            }
-            if (probe.width) {
-              videoOpts.width = String(probe.width);
-            }
-            if (probe.height) {
-              videoOpts.height = String(probe.height);
+        } else {
+          // 上传到钉钉
+          const uploadResult = await upload();
+          if (sendType === "voice" && hasFFmpeg()) {
+            // 语音：使用 ffprobe 获取时长，发送原生语音消息
+            try {
+              const probe = await probeMediaBuffer(buffer, fileName, "voice");
+              sendResult = await sendAudioMessage(to, uploadResult.mediaId, {
+                account,
+                duration: String(probe.duration),
+              });
+              logger.log(`发送语音消息成功 | duration: ${(probe.duration / 1000).toFixed(1)}s`);
+            } catch (probeErr) {
+              logger.warn(`[sendMedia] 语音探测失败，降级为文件发送: ${probeErr}`);
+              sendResult = await sendFileMessage(to, uploadResult.mediaId, fileName, ext, { account });
+              logger.log("发送语音消息成功（降级为文件形式）");
             }
+          } else if (sendType === "video" && hasFFmpeg()) {
+            // 视频：使用 ffprobe 获取时长和分辨率，提取封面，发送原生视频消息
+            try {
+              const probe = await probeMediaBuffer(buffer, fileName, "video");
+              const videoOpts: {
+                account: typeof account;
+                duration?: string;
+                picMediaId?: string;
+                width?: string;
+                height?: string;
+              } = { account };
+
+              if (probe.duration) {
+                videoOpts.duration = String(Math.floor(probe.duration / 1000));
+              }
+              if (probe.width) {
+                videoOpts.width = String(probe.width);
+              }
+              if (probe.height) {
+                videoOpts.height = String(probe.height);
+              }
 
-            // 上传封面图
-            if (probe.coverBuffer) {
-              try {
-                const coverUpload = await uploadMedia(probe.coverBuffer, "cover.jpg", account, {
-                  mimeType: "image/jpeg",
-                  type: "image",
-                });
-                videoOpts.picMediaId = coverUpload.mediaId;
-                logger.log(`视频封面上传成功 | picMediaId: ${coverUpload.mediaId}`);
-              } catch (coverErr) {
-                logger.warn(`[sendMedia] 视频封面上传失败，将不带封面发送: ${coverErr}`);
+              // 上传封面图
+              if (probe.coverBuffer) {
+                try {
+                  const coverUpload = await uploadMedia(probe.coverBuffer, "cover.jpg", account, {
+                    mimeType: "image/jpeg",
+                    type: "image",
+                  });
+                  videoOpts.picMediaId = coverUpload.mediaId;
+                  logger.log(`视频封面上传成功 | picMediaId: ${coverUpload.mediaId}`);
+                } catch (coverErr) {
+                  logger.warn(`[sendMedia] 视频封面上传失败，将不带封面发送: ${coverErr}`);
+                }
               }
-            }
 
-            sendResult = await sendVideoMessage(to, uploadResult.mediaId, videoOpts);
-            logger.log(`发送视频消息成功 | duration: ${(probe.duration / 1000).toFixed(1)}s | ${probe.width}x${probe.height}`);
-          } catch (probeErr) {
-            logger.warn(`[sendMedia] 视频探测失败，降级为文件发送: ${probeErr}`);
-            sendResult = await sendFileMessage(to, uploadResult.mediaId, fileName, ext, { account });
-            logger.log("发送视频消息成功（降级为文件形式）");
-          }
-        } else {
-          // 文件 或 无 ffmpeg 的语音/视频：降级为文件发送
-          sendResult = await sendFileMessage(to, uploadResult.mediaId, fileName, ext, { account });
-
-          if ((mediaType === "voice" || mediaType === "video") && !hasFFmpeg()) {
-            logger.log(`发送${mediaType}消息成功（文件形式，系统未安装 ffmpeg）`);
-            // 附带降级提示文本
-            const hint = `⚠️ 系统未安装 ffmpeg，${mediaType === "voice" ? "语音" : "视频"}已降级为文件发送。如需原生${mediaType === "voice" ? "语音" : "视频"}体验，请安装 ffmpeg。`;
-            await sendTextMessage(to, hint, { account });
+              sendResult = await sendVideoMessage(to, uploadResult.mediaId, videoOpts);
+              logger.log(`发送视频消息成功 | duration: ${(probe.duration / 1000).toFixed(1)}s | ${probe.width}x${probe.height}`);
+            } catch (probeErr) {
+              logger.warn(`[sendMedia] 视频探测失败，降级为文件发送: ${probeErr}`);
+              sendResult = await sendFileMessage(to, uploadResult.mediaId, fileName, ext, { account });
+              logger.log("发送视频消息成功（降级为文件形式）");
+            }
           } else {
-            logger.log("发送文件消息成功");
+            // 文件、无 ffmpeg 或无法转码到大小上限内的语音/视频：降级为文件发送
+            sendResult = await sendFileMessage(to, uploadResult.mediaId, fileName, ext, { account });
+
+            if ((mediaType === "voice" || mediaType === "video") && !hasFFmpeg()) {
+              logger.log(`发送${mediaType}消息成功（文件形式，系统未安装 ffmpeg）`);
+              // 附带降级提示文本
+              const hint = `⚠️ 系统未安装 ffmpeg，${mediaType === "voice" ? "语音" : "视频"}已降级为文件发送。如需原生${mediaType === "voice" ? "语音" : "视频"}体验，请安装 ffmpeg。`;
+              await sendTextMessage(to, hint, { account });
+            } else {
+              logger.log("发送文件消息成功");
+            }
           }
         }
 
@@ -403,6 +681,7 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
           await sendTextMessage(to, text, { account });
         }
 
+        trackReadReceipt(sendResult, to, account);
         return { channel: PLUGIN_ID, ...sendResult };
       } catch (err) {
         logger.error("发送媒体失败:", err);
@@ -465,6 +744,8 @@ export const dingtalkPlugin: ChannelPlugin<ResolvedDingTalkAccount> = {
         probe,
         lastInboundAt: runtime?.lastInboundAt ?? null,
         lastOutboundAt: runtime?.lastOutboundAt ?? null,
+        // 钉钉特有的运行时信息（重试、限流、已读回执等）
+        ...pickDingTalkRuntimeExtras(getDingTalkRuntimeState(account.accountId)),
       };
     },
   },
@@ -1,79 +1,277 @@
-import type { ResolvedDingTalkAccount, WebhookResponse, MarkdownReplyBody } from "./types.js";
+import crypto from "node:crypto";
+import type {
+  ResolvedDingTalkAccount,
+  WebhookResponse,
+  AtConfig,
+  ReplyBody,
+  ActionCardMessage,
+  FeedCardLink,
+  LinkMessage,
+  InteractiveCardMessage,
+  DingRemindType,
+} from "./types.js";
 import { logger } from "./logger.js";
+import { recordSentMessage } from "./message-store.js";
+import { dingtalkFetch } from "./transport.js";
+import { withRetry, DingTalkApiError, isAuthError, isPermissionError } from "./retry.js";
+import { enqueueOutbound } from "./send-queue.js";
+import { renderDingTalkMarkdown, deriveMarkdownTitle, hasMarkdownSyntax } from "./markdown.js";
 
 // ======================= 钉钉 API 基础封装 =======================
 
-const DINGTALK_API_BASE = "https://api.dingtalk.com";
-
 /**
  * 钉钉新版 API 统一调用（v1.0 接口）
+ * @param account - 钉钉账户配置（决定 API 地址）
  * @param path - API 路径，如 `/v1.0/oauth2/accessToken`
- * @param body - 请求体
+ * @param body - 请求体（GET 请求忽略，参数放在 path 的查询串中）
  * @param accessToken - 可选，需要鉴权的接口传入
+ * @param method - 请求方法，默认 POST（卡片更新等接口使用 PUT，查询接口使用 GET）
+ *
+ * 传入 accessToken 的请求遇到 token 失效（被吊销或凭证已轮换）时，刷新 token 后重试一次
  */
 async function dingtalkApi<T = Record<string, unknown>>(
+  account: ResolvedDingTalkAccount,
   path: string,
   body: Record<string, unknown>,
-  accessToken?: string
+  accessToken?: string,
+  method: "POST" | "PUT" | "GET" = "POST"
 ): Promise<T> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
+  const request = async (token?: string): Promise<T> => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (token) {
+      headers["x-acs-dingtalk-access-token"] = token;
+    }
+
+    const response = await dingtalkFetch({
+      kind: "api",
+      url: `${account.apiBaseUrl}${path}`,
+      method,
+      headers,
+      body: method === "GET" ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let code: string | undefined;
+      try {
+        code = (JSON.parse(text) as { code?: string }).code;
+      } catch {
+        // 非 JSON 响应体（如网关错误页），只保留状态码
+      }
+      throw new DingTalkApiError(`钉钉 API 请求失败 [${response.status}]: ${text}`, response.status, code);
+    }
+
+    return (await response.json()) as T;
   };
-  if (accessToken) {
-    headers["x-acs-dingtalk-access-token"] = accessToken;
-  }
 
-  const response = await fetch(`${DINGTALK_API_BASE}${path}`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(body),
-  });
+  return accessToken ? withTokenRefresh(account, accessToken, path, request) : request();
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`钉钉 API 请求失败 [${response.status}]: ${text}`);
-  }
+/**
+ * 钉钉旧版 oapi 统一调用（通讯录等接口，access_token 放在查询串中）
+ * errcode 非 0 时抛出 DingTalkApiError；token 失效时刷新后重试一次
+ */
+async function dingtalkOapi<T = Record<string, unknown>>(
+  account: ResolvedDingTalkAccount,
+  path: string,
+  body: Record<string, unknown>,
+  accessToken: string
+): Promise<T> {
+  return withTokenRefresh(account, accessToken, path, async (token) => {
+    const response = await dingtalkFetch({
+      kind: "oapi",
+      url: `${account.oapiBaseUrl}${path}?access_token=${token}`,
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
 
-  return (await response.json()) as T;
+    if (!response.ok) {
+      throw new DingTalkApiError(`钉钉 oapi 请求失败 [${response.status}]: ${await response.text()}`, response.status);
+    }
+
+    const result = (await response.json()) as T & { errcode?: number; errmsg?: string };
+    if (result.errcode !== undefined && result.errcode !== 0) {
+      throw new DingTalkApiError(`钉钉 oapi 请求失败: ${result.errmsg ?? result.errcode}`, response.status, result.errcode);
+    }
+    return result;
+  });
 }
 
-// ======================= Access Token 缓存 =======================
+// ======================= Access Token 管理 =======================
+
+/** 提前刷新的时间（过期前 5 分钟内视为需要刷新） */
+const TOKEN_REFRESH_AHEAD_MS = 5 * 60 * 1000;
 
 interface TokenCache {
   token: string;
+  /** 获取时间 */
+  obtainedAt: number;
+  /** 过期时间 */
   expireTime: number;
+  /** 最近一次被使用的时间，后台刷新只为仍在使用的 token 续期 */
+  lastUsedAt: number;
+  /** 后台刷新定时器 */
+  refreshTimer?: ReturnType<typeof setTimeout>;
 }
 
+/** 凭证对（clientId + clientSecret）-> token 缓存 */
 const tokenCacheMap = new Map<string, TokenCache>();
 
+/** 进行中的刷新请求，并发调用共用同一个请求 */
+const tokenRefreshes = new Map<string, Promise<string>>();
+
+/** 缓存 key：同时包含 clientId 和 clientSecret，轮换密钥后不会继续使用旧 token */
+function tokenCacheKey(account: ResolvedDingTalkAccount): string {
+  const secretHash = crypto.createHash("sha256").update(account.clientSecret).digest("hex").slice(0, 16);
+  return `${account.clientId}:${secretHash}`;
+}
+
+function clearTokenCache(key: string): void {
+  const cached = tokenCacheMap.get(key);
+  if (cached?.refreshTimer) clearTimeout(cached.refreshTimer);
+  tokenCacheMap.delete(key);
+}
+
+/** 在过期前后台刷新仍在使用的 token */
+function scheduleTokenRefresh(account: ResolvedDingTalkAccount, key: string, cache: TokenCache): void {
+  const delay = Math.max(0, cache.expireTime - TOKEN_REFRESH_AHEAD_MS - Date.now());
+  cache.refreshTimer = setTimeout(() => {
+    if (tokenCacheMap.get(key) !== cache) return;
+    if (cache.lastUsedAt <= cache.obtainedAt) {
+      // 上次刷新后没有再被使用，不再续期，下次使用时按需获取
+      clearTokenCache(key);
+      return;
+    }
+    refreshAccessToken(account, key).catch((err) => {
+      logger.warn(`[access_token] 后台刷新失败，下次使用时重试 | clientId: ${account.clientId} | ${String(err)}`);
+    });
+  }, delay);
+  // 不阻止进程退出
+  cache.refreshTimer.unref?.();
+}
+
+/** 向钉钉请求新 token（同一凭证对的并发刷新合并为一次请求） */
+function refreshAccessToken(account: ResolvedDingTalkAccount, key: string): Promise<string> {
+  const inflight = tokenRefreshes.get(key);
+  if (inflight) return inflight;
+
+  const refresh = (async () => {
+    const result = await withRetry(
+      () => dingtalkApi<{ accessToken?: string; expireIn?: number }>(
+        account,
+        "/v1.0/oauth2/accessToken",
+        {
+          appKey: account.clientId,
+          appSecret: account.clientSecret,
+        }
+      ),
+      { account, label: "获取 access_token" }
+    );
+
+    if (!result.accessToken) {
+      throw new Error("获取 access_token 失败: 返回结果为空");
+    }
+
+    // 同一 clientId 的旧凭证缓存（密钥已轮换）一并清理
+    for (const staleKey of tokenCacheMap.keys()) {
+      if (staleKey !== key && staleKey.startsWith(`${account.clientId}:`)) clearTokenCache(staleKey);
+    }
+
+    const now = Date.now();
+    const previous = tokenCacheMap.get(key);
+    clearTokenCache(key);
+    const cache: TokenCache = {
+      token: result.accessToken,
+      obtainedAt: now,
+      expireTime: now + (result.expireIn ?? 7200) * 1000,
+      lastUsedAt: previous?.lastUsedAt ?? now,
+    };
+    tokenCacheMap.set(key, cache);
+    scheduleTokenRefresh(account, key, cache);
+    return cache.token;
+  })().finally(() => tokenRefreshes.delete(key));
+
+  tokenRefreshes.set(key, refresh);
+  return refresh;
+}
+
 /**
  * 获取钉钉 access_token
  */
 export async function getAccessToken(account: ResolvedDingTalkAccount): Promise<string> {
-  const cacheKey = `${account.clientId}`;
-  const cached = tokenCacheMap.get(cacheKey);
+  const key = tokenCacheKey(account);
+  const cached = tokenCacheMap.get(key);
 
   // 检查缓存的 token 是否有效（提前5分钟过期）
-  if (cached && Date.now() < cached.expireTime - 5 * 60 * 1000) {
+  if (cached && Date.now() < cached.expireTime - TOKEN_REFRESH_AHEAD_MS) {
+    cached.lastUsedAt = Date.now();
     return cached.token;
   }
 
-  const result = await dingtalkApi<{ accessToken?: string; expireIn?: number }>(
-    "/v1.0/oauth2/accessToken",
-    {
-      appKey: account.clientId,
-      appSecret: account.clientSecret,
-    }
-  );
+  const token = await refreshAccessToken(account, key);
+  const refreshed = tokenCacheMap.get(key);
+  if (refreshed) refreshed.lastUsedAt = Date.now();
+  return token;
+}
 
-  if (result.accessToken) {
-    const token = result.accessToken;
-    const expireTime = Date.now() + (result.expireIn ?? 7200) * 1000;
-    tokenCacheMap.set(cacheKey, { token, expireTime });
-    return token;
+/**
+ * 作废缓存的 access_token（钉钉返回 token 失效时调用）
+ * @param token - 失效的 token，缓存已被并发请求刷新为新 token 时不作废
+ */
+function invalidateAccessToken(account: ResolvedDingTalkAccount, token: string): void {
+  const key = tokenCacheKey(account);
+  if (tokenCacheMap.get(key)?.token === token) {
+    clearTokenCache(key);
   }
+}
 
-  throw new Error("获取 access_token 失败: 返回结果为空");
+/**
+ * 携带 access_token 执行请求，token 失效时作废并用新 token 重试一次
+ * token 失效时请求未被处理，非幂等接口重试也不会重复执行
+ */
+async function withTokenRefresh<T>(
+  account: ResolvedDingTalkAccount,
+  accessToken: string,
+  label: string,
+  call: (token: string) => Promise<T>
+): Promise<T> {
+  try {
+    return await call(accessToken);
+  } catch (err) {
+    if (!isAuthError(err)) throw err;
+    logger.warn(`[access_token] 鉴权失败，刷新 token 后重试 | ${label}`);
+    invalidateAccessToken(account, accessToken);
+    return call(await getAccessToken(account));
+  }
+}
+
+/** access_token 状态（用于探测结果） */
+export interface AccessTokenInfo {
+  /** 获取时间 */
+  obtainedAt: number;
+  /** 过期时间 */
+  expiresAt: number;
+  /** 已使用时长（毫秒） */
+  ageMs: number;
+  /** 剩余有效时长（毫秒） */
+  expiresInMs: number;
+}
+
+function getAccessTokenInfo(account: ResolvedDingTalkAccount): AccessTokenInfo | undefined {
+  const cached = tokenCacheMap.get(tokenCacheKey(account));
+  if (!cached) return undefined;
+  const now = Date.now();
+  return {
+    obtainedAt: cached.obtainedAt,
+    expiresAt: cached.expireTime,
+    ageMs: now - cached.obtainedAt,
+    expiresInMs: Math.max(0, cached.expireTime - now),
+  };
 }
 
 // ======================= 发送消息 =======================
@@ -88,50 +286,183 @@ export interface SendMessageResult {
   chatId: string;
 }
 
+/** 多人发送中单个接收人的结果 */
+export interface RecipientSendResult {
+  userId: string;
+  /** sent=已发送, invalid=用户无效, throttled=被限流未发送, failed=请求失败 */
+  status: "sent" | "invalid" | "throttled" | "failed";
+  /** 所在批次的 messageId（processQueryKey） */
+  messageId?: string;
+  error?: string;
+}
+
+/** 多人发送结果（users: / dept: 目标） */
+export interface MultiSendResult extends SendMessageResult {
+  /** 每个批次的 messageId（撤回、查询已读状态时使用） */
+  messageIds: string[];
+  recipients: RecipientSendResult[];
+  /** 发送成功的人数 */
+  sent: number;
+  /** 未发送成功的人数 */
+  failed: number;
+}
+
+/** 是否 @ 了具体的人或所有人 */
+function hasMentions(at?: AtConfig): boolean {
+  return Boolean(at?.isAtAll || at?.atUserIds?.length || at?.atMobiles?.length);
+}
+
 /**
- * 通过 sessionWebhook 回复消息（markdown 格式）
+ * 根据回复文本构造 webhook 消息体
+ * - 需要 @ 人且没有 Markdown 语法：text 消息（被 @ 的人会收到高亮提醒）
+ * - 其他情况：转换为钉钉 Markdown 后以 markdown 消息发送
  */
-export async function replyViaWebhook(
-  webhook: string,
-  content: string,
-  options?: {
-    atUserIds?: string[];
-    isAtAll?: boolean;
+export function buildTextReplyBody(content: string, at?: AtConfig): ReplyBody {
+  if (hasMentions(at) && !hasMarkdownSyntax(content)) {
+    return { msgtype: "text", text: { content }, at };
   }
-): Promise<WebhookResponse> {
-  const contentPreview = content.slice(0, 50).replace(/\n/g, " ");
-  logger.log(`[回复消息] via Webhook | ${contentPreview}${content.length > 50 ? "..." : ""}`);
-
-  const title = content.slice(0, 10).replace(/\n/g, " ");
-  const body: MarkdownReplyBody = {
+  const text = renderDingTalkMarkdown(content);
+  return {
     msgtype: "markdown",
-    markdown: {
-      title,
-      text: content,
+    markdown: { title: deriveMarkdownTitle(text), text },
+    ...(at ? { at } : {}),
+  };
+}
+
+/** 构造链接消息的 webhook 消息体 */
+export function buildLinkReplyBody(link: LinkMessage): ReplyBody {
+  return {
+    msgtype: "link",
+    link: {
+      title: link.title,
+      text: link.text,
+      messageUrl: link.messageUrl,
+      ...(link.picUrl ? { picUrl: link.picUrl } : {}),
     },
-    at: {
-      atUserIds: options?.atUserIds ?? [],
-      isAtAll: options?.isAtAll ?? false,
+  };
+}
+
+/**
+ * 构造 ActionCard 的 webhook 消息体
+ * 1 个按钮为整体跳转，多个按钮为独立跳转（horizontal 时横向排列）
+ */
+export function buildActionCardReplyBody(card: ActionCardMessage): ReplyBody {
+  const buttons = card.buttons.filter((btn) => btn.title && btn.url);
+  if (buttons.length === 0) {
+    throw new Error("ActionCard 至少需要一个按钮");
+  }
+
+  const { title, text } = card;
+  if (buttons.length === 1) {
+    return {
+      msgtype: "actionCard",
+      actionCard: { title, text, singleTitle: buttons[0].title, singleURL: buttons[0].url },
+    };
+  }
+  return {
+    msgtype: "actionCard",
+    actionCard: {
+      title,
+      text,
+      btnOrientation: card.orientation === "horizontal" ? "1" : "0",
+      btns: buttons.map((btn) => ({ title: btn.title, actionURL: btn.url })),
     },
   };
+}
 
-  const response = await fetch(webhook, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
+/** 构造 FeedCard 的 webhook 消息体 */
+export function buildFeedCardReplyBody(links: FeedCardLink[]): ReplyBody {
+  const validLinks = links.filter((link) => link.title && link.messageURL);
+  if (validLinks.length === 0) {
+    throw new Error("FeedCard 至少需要一条链接");
+  }
+  return {
+    msgtype: "feedCard",
+    feedCard: {
+      links: validLinks.map((link) => ({
+        title: link.title,
+        messageURL: link.messageURL,
+        ...(link.picURL ? { picURL: link.picURL } : {}),
+      })),
     },
-    body: JSON.stringify(body),
-  });
+  };
+}
 
-  const result = (await response.json()) as WebhookResponse;
+/** 消息体的日志摘要 */
+function describeReplyBody(body: ReplyBody): string {
+  switch (body.msgtype) {
+    case "text":
+      return body.text.content;
+    case "markdown":
+      return body.markdown.text;
+    case "link":
+      return body.link.title;
+    case "actionCard":
+      return body.actionCard.title;
+    case "feedCard":
+      return body.feedCard.links.map((link) => link.title).join(" / ");
+  }
+}
 
-  if (result.errcode === 0) {
-    logger.log(`[回复消息] 发送成功`);
-  } else {
-    logger.error(`[回复消息] 发送失败: ${result.errmsg ?? JSON.stringify(result)}`);
+/**
+ * 通过 sessionWebhook 回复消息
+ * @param content - 回复文本（按 buildTextReplyBody 选择 text / markdown）或已构造好的消息体（link、actionCard、feedCard 等）
+ *
+ * 传入 account 和 to 时进入该会话的出站发送队列，与主动发送共用顺序和限速；
+ * markdown 消息在排队期间与相邻的同组 markdown 合并发送
+ */
+export async function replyViaWebhook(
+  webhook: string,
+  content: string | ReplyBody,
+  options?: {
+    /** @ 配置（content 为文本时生效） */
+    at?: AtConfig;
+    account?: ResolvedDingTalkAccount;
+    /** 会话目标（chat:<openConversationId> 或 userId），用于出站队列 */
+    to?: string;
   }
+): Promise<WebhookResponse> {
+  const body = typeof content === "string" ? buildTextReplyBody(content, options?.at) : content;
+  const preview = describeReplyBody(body);
+  logger.log(`[回复消息] via Webhook | ${body.msgtype} | ${preview.slice(0, 50).replace(/\n/g, " ")}${preview.length > 50 ? "..." : ""}`);
+
+  const post = async (payload: ReplyBody): Promise<WebhookResponse> => {
+    const response = await dingtalkFetch({
+      kind: "webhook",
+      url: webhook,
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
 
-  return result;
+    const result = (await response.json()) as WebhookResponse;
+
+    if (result.errcode === 0) {
+      logger.log(`[回复消息] 发送成功`);
+    } else {
+      logger.error(`[回复消息] 发送失败: ${result.errmsg ?? JSON.stringify(result)}`);
+    }
+
+    return result;
+  };
+
+  if (!options?.account || !options.to) {
+    return post(body);
+  }
+  if (body.msgtype !== "markdown") {
+    return enqueueOutbound(options.account, options.to, { run: () => post(body) });
+  }
+
+  const at = body.at ?? {};
+  return enqueueOutbound(options.account, options.to, {
+    merge: {
+      mergeKey: `webhook|${webhook}|${at.atUserIds?.join(",") ?? ""}|${at.atMobiles?.join(",") ?? ""}|${at.isAtAll ?? false}`,
+      text: body.markdown.text,
+      send: (text) => post({ ...body, markdown: { title: deriveMarkdownTitle(text), text } }),
+    },
+  });
 }
 
 // ======================= 主动发送消息（BatchSendOTO / OrgGroupSend） =======================
@@ -148,12 +479,63 @@ export type DingTalkMsgKey =
   | "sampleAudio"     // 语音
   | "sampleVideo"     // 视频
   | "sampleFile"      // 文件
-  | "sampleActionCard"  // 卡片
-  | "sampleActionCard2" // 卡片（独立跳转）
-  | "sampleActionCard3" // 卡片（竖向按钮）
-  | "sampleActionCard4" // 卡片（横向按钮）
-  | "sampleActionCard5" // 卡片（横向2按钮）
-  | "sampleActionCard6"; // 卡片（横向3按钮）
+  | "sampleActionCard"  // 卡片（单按钮，整体跳转）
+  | "sampleActionCard2" // 卡片（竖向2按钮，独立跳转）
+  | "sampleActionCard3" // 卡片（竖向3按钮，独立跳转）
+  | "sampleActionCard4" // 卡片（竖向4按钮，独立跳转）
+  | "sampleActionCard5" // 卡片（竖向5按钮，独立跳转）
+  | "sampleActionCard6"; // 卡片（横向2按钮，独立跳转）
+
+/**
+ * 记录主动发送的消息，供撤回等操作按 messageId 找回会话（失败只记日志）
+ */
+function rememberSentMessage(messageId: string, to: string, options: SendMessageOptions): void {
+  recordSentMessage(messageId, { accountId: options.account.accountId, to }).catch((err) => {
+    logger.warn(`[发送记录] 记录失败 | messageId: ${messageId} | ${String(err)}`);
+  });
+}
+
+/** 单次批量单聊发送的最大用户数（BatchSendOTO 限制） */
+const MAX_OTO_BATCH_USERS = 20;
+
+/**
+ * 批量发送单聊消息（BatchSendOTO，单次最多 MAX_OTO_BATCH_USERS 人）
+ * @returns processQueryKey，以及接口返回的无效用户和被限流的用户
+ */
+async function sendOTOBatch(
+  userIds: string[],
+  msgKey: DingTalkMsgKey,
+  msgParam: Record<string, unknown>,
+  options: SendMessageOptions
+): Promise<{ processQueryKey?: string; invalidUserIds: string[]; throttledUserIds: string[] }> {
+  const accessToken = await getAccessToken(options.account);
+
+  // 发送非幂等，只在限流（请求未被处理）时重试
+  const result = await withRetry(
+    () => dingtalkApi<{
+      processQueryKey?: string;
+      invalidStaffIdList?: string[];
+      flowControlledStaffIdList?: string[];
+    }>(
+      options.account,
+      "/v1.0/robot/oToMessages/batchSend",
+      {
+        robotCode: options.account.clientId,
+        userIds,
+        msgKey,
+        msgParam: JSON.stringify(msgParam),
+      },
+      accessToken
+    ),
+    { account: options.account, label: "单聊发送", retryOn: "throttle" }
+  );
+
+  return {
+    processQueryKey: result.processQueryKey,
+    invalidUserIds: result.invalidStaffIdList ?? [],
+    throttledUserIds: result.flowControlledStaffIdList ?? [],
+  };
+}
 
 /**
  * 底层通用方法：主动发送单聊消息（BatchSendOTO）
@@ -165,20 +547,12 @@ async function sendOTOMessage(
   msgParam: Record<string, unknown>,
   options: SendMessageOptions
 ): Promise<SendMessageResult> {
-  const accessToken = await getAccessToken(options.account);
-
-  const result = await dingtalkApi<{ processQueryKey?: string }>(
-    "/v1.0/robot/oToMessages/batchSend",
-    {
-      robotCode: options.account.clientId,
-      userIds: [userId],
-      msgKey,
-      msgParam: JSON.stringify(msgParam),
-    },
-    accessToken
-  );
+  const result = await sendOTOBatch([userId], msgKey, msgParam, options);
 
   const processQueryKey = result.processQueryKey ?? `dingtalk-${Date.now()}`;
+  if (result.processQueryKey) {
+    rememberSentMessage(processQueryKey, userId, options);
+  }
 
   return {
     messageId: processQueryKey,
@@ -186,6 +560,64 @@ async function sendOTOMessage(
   };
 }
 
+/**
+ * 多人发送（users:<id,id,...> 或 dept:<deptId>）
+ * 按 MAX_OTO_BATCH_USERS 分批发送，汇总每个接收人的结果；单个批次失败不影响其余批次，全部失败时抛出第一个错误
+ */
+async function sendMultiMessage(
+  to: string,
+  msgKey: DingTalkMsgKey,
+  msgParam: Record<string, unknown>,
+  options: SendMessageOptions
+): Promise<MultiSendResult> {
+  const userIds = await resolveTargetUserIds(to, options.account);
+  if (userIds.length === 0) {
+    throw new Error(`发送目标 ${to} 中没有可发送的用户`);
+  }
+
+  const recipients: RecipientSendResult[] = [];
+  const messageIds: string[] = [];
+  let firstError: unknown;
+
+  for (let i = 0; i < userIds.length; i += MAX_OTO_BATCH_USERS) {
+    const batch = userIds.slice(i, i + MAX_OTO_BATCH_USERS);
+    try {
+      const result = await sendOTOBatch(batch, msgKey, msgParam, options);
+      const invalid = new Set(result.invalidUserIds);
+      const throttled = new Set(result.throttledUserIds);
+      if (result.processQueryKey) {
+        messageIds.push(result.processQueryKey);
+        rememberSentMessage(result.processQueryKey, `users:${batch.join(",")}`, options);
+      }
+      for (const userId of batch) {
+        const status = invalid.has(userId) ? "invalid" : throttled.has(userId) ? "throttled" : "sent";
+        recipients.push({ userId, status, messageId: status === "sent" ? result.processQueryKey : undefined });
+      }
+    } catch (err) {
+      firstError ??= err;
+      logger.error(`[主动发送] 多人发送批次失败 | ${batch.length} 人 | ${String(err)}`);
+      for (const userId of batch) {
+        recipients.push({ userId, status: "failed", error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  }
+
+  const sent = recipients.filter((r) => r.status === "sent").length;
+  logger.log(`[主动发送] 多人发送完成 | to: ${to} | 成功: ${sent}/${recipients.length} | 批次: ${Math.ceil(userIds.length / MAX_OTO_BATCH_USERS)}`);
+  if (sent === 0 && firstError) {
+    throw firstError;
+  }
+
+  return {
+    messageId: messageIds[0] ?? `dingtalk-${Date.now()}`,
+    chatId: to,
+    messageIds,
+    recipients,
+    sent,
+    failed: recipients.length - sent,
+  };
+}
+
 /**
  * 底层通用方法：主动发送群聊消息（OrgGroupSend）
  */
@@ -197,18 +629,26 @@ async function sendGroupMessage(
 ): Promise<SendMessageResult> {
   const accessToken = await getAccessToken(options.account);
 
-  const result = await dingtalkApi<{ processQueryKey?: string }>(
-    "/v1.0/robot/groupMessages/send",
-    {
-      robotCode: options.account.clientId,
-      openConversationId,
-      msgKey,
-      msgParam: JSON.stringify(msgParam),
-    },
-    accessToken
+  // 发送非幂等，只在限流（请求未被处理）时重试
+  const result = await withRetry(
+    () => dingtalkApi<{ processQueryKey?: string }>(
+      options.account,
+      "/v1.0/robot/groupMessages/send",
+      {
+        robotCode: options.account.clientId,
+        openConversationId,
+        msgKey,
+        msgParam: JSON.stringify(msgParam),
+      },
+      accessToken
+    ),
+    { account: options.account, label: "群聊发送", retryOn: "throttle" }
   );
 
   const processQueryKey = result.processQueryKey ?? `dingtalk-group-${Date.now()}`;
+  if (result.processQueryKey) {
+    rememberSentMessage(processQueryKey, `chat:${openConversationId}`, options);
+  }
 
   return {
     messageId: processQueryKey,
@@ -216,6 +656,915 @@ async function sendGroupMessage(
   };
 }
 
+// ======================= 通讯录 =======================
+
+/** 部门广播展开成员时最多遍历的部门数（超出时发送失败，不会只发给一部分人） */
+const MAX_EXPANDED_DEPARTMENTS = 200;
+
+/** 通讯录用户 */
+export interface DirectoryUser {
+  userId: string;
+  name: string;
+  title?: string;
+  email?: string;
+  /** 企业邮箱 */
+  orgEmail?: string;
+  /** 所属部门 ID */
+  deptIds?: number[];
+  /** 工号 */
+  jobNumber?: string;
+  /** 直属主管用户 ID */
+  managerUserId?: string;
+  /** 是否为企业管理员 */
+  isAdmin?: boolean;
+  /** unionId（待办、日程等新版接口使用） */
+  unionId?: string;
+}
+
+/** oapi 用户详情 -> DirectoryUser */
+function toDirectoryUser(raw: {
+  userid: string;
+  name?: string;
+  title?: string;
+  email?: string;
+  org_email?: string;
+  dept_id_list?: number[];
+  job_number?: string;
+  manager_userid?: string;
+  admin?: boolean;
+  unionid?: string;
+}): DirectoryUser {
+  return {
+    userId: raw.userid,
+    name: raw.name ?? "",
+    title: raw.title || undefined,
+    email: raw.email || undefined,
+    orgEmail: raw.org_email || undefined,
+    deptIds: raw.dept_id_list,
+    jobNumber: raw.job_number || undefined,
+    managerUserId: raw.manager_userid || undefined,
+    isAdmin: raw.admin,
+    unionId: raw.unionid || undefined,
+  };
+}
+
+/**
+ * 从指定部门开始按层级遍历所有子部门
+ * @param visit - 对每个部门执行的操作
+ * @param maxDepartments - 最多遍历的部门数，超出时抛出错误（不返回不完整的结果）
+ * @returns 遍历的部门数
+ */
+async function walkDepartments(
+  deptId: string,
+  account: ResolvedDingTalkAccount,
+  visit: (deptId: number, accessToken: string) => Promise<void>,
+  maxDepartments = Infinity
+): Promise<number> {
+  const accessToken = await getAccessToken(account);
+  const pending = [deptId];
+  const visited = new Set<string>();
+
+  while (pending.length > 0) {
+    const current = pending.shift()!;
+    if (visited.has(current)) continue;
+    if (visited.size >= maxDepartments) {
+      throw new Error(`部门 ${deptId} 的子部门超过 ${maxDepartments} 个，无法完整展开`);
+    }
+    visited.add(current);
+
+    const numericId = Number(current);
+    const [, subDepts] = await Promise.all([
+      visit(numericId, accessToken),
+      withRetry(
+        () => dingtalkOapi<{ result?: { dept_id_list?: number[] } }>(account, "/topapi/v2/department/listsubid", { dept_id: numericId }, accessToken),
+        { account, label: "获取子部门" }
+      ),
+    ]);
+    for (const sub of subDepts.result?.dept_id_list ?? []) pending.push(String(sub));
+  }
+  return visited.size;
+}
+
+/**
+ * 获取部门成员的用户 ID（包含所有子部门，去重）
+ * 需要应用开通通讯录部门和成员的读权限
+ */
+export async function listDepartmentUserIds(
+  deptId: string,
+  account: ResolvedDingTalkAccount
+): Promise<string[]> {
+  const userIds = new Set<string>();
+  const deptCount = await walkDepartments(deptId, account, async (id, accessToken) => {
+    const members = await withRetry(
+      () => dingtalkOapi<{ result?: { userid_list?: string[] } }>(account, "/topapi/user/listid", { dept_id: id }, accessToken),
+      { account, label: "获取部门成员" }
+    );
+    for (const userId of members.result?.userid_list ?? []) userIds.add(userId);
+  }, MAX_EXPANDED_DEPARTMENTS);
+
+  logger.log(`[通讯录] 部门成员 | deptId: ${deptId} | 部门: ${deptCount} | 成员: ${userIds.size}`);
+  return [...userIds];
+}
+
+/**
+ * 获取部门（包含所有子部门）成员的详细信息（去重）
+ * 用于按邮箱等没有查询接口的字段在通讯录中查找用户，遍历全部子部门以免漏掉成员
+ */
+export async function listDepartmentUsers(
+  deptId: string,
+  account: ResolvedDingTalkAccount
+): Promise<DirectoryUser[]> {
+  const users = new Map<string, DirectoryUser>();
+  const deptCount = await walkDepartments(deptId, account, async (id, accessToken) => {
+    let cursor = 0;
+    for (;;) {
+      const page = await withRetry(
+        () => dingtalkOapi<{
+          result?: {
+            has_more?: boolean;
+            next_cursor?: number;
+            list?: Array<Parameters<typeof toDirectoryUser>[0]>;
+          };
+        }>(account, "/topapi/v2/user/list", { dept_id: id, cursor, size: 100 }, accessToken),
+        { account, label: "获取部门成员详情" }
+      );
+      for (const raw of page.result?.list ?? []) {
+        if (raw.userid) users.set(raw.userid, toDirectoryUser(raw));
+      }
+      if (!page.result?.has_more || page.result.next_cursor === undefined) break;
+      cursor = page.result.next_cursor;
+    }
+  });
+
+  logger.log(`[通讯录] 部门成员详情 | deptId: ${deptId} | 部门: ${deptCount} | 成员: ${users.size}`);
+  return [...users.values()];
+}
+
+/** 钉钉「用户不存在」错误码 */
+const USER_NOT_FOUND_ERRCODE = 60121;
+
+/** 是否为用户不存在（如已离职） */
+export function isUserNotFoundError(err: unknown): boolean {
+  return err instanceof DingTalkApiError && err.code === USER_NOT_FOUND_ERRCODE;
+}
+
+/**
+ * 按手机号查询用户 ID
+ * @returns 用户 ID，不存在时返回 null
+ */
+export async function getUserIdByMobile(
+  mobile: string,
+  account: ResolvedDingTalkAccount
+): Promise<string | null> {
+  const accessToken = await getAccessToken(account);
+  try {
+    const result = await withRetry(
+      () => dingtalkOapi<{ result?: { userid?: string } }>(account, "/topapi/v2/user/getbymobile", { mobile }, accessToken),
+      { account, label: "按手机号查询用户" }
+    );
+    return result.result?.userid ?? null;
+  } catch (err) {
+    if (isUserNotFoundError(err)) return null;
+    throw err;
+  }
+}
+
+/**
+ * 按姓名搜索用户 ID（精确匹配姓名）
+ */
+export async function searchUserIdsByName(
+  name: string,
+  account: ResolvedDingTalkAccount
+): Promise<string[]> {
+  const accessToken = await getAccessToken(account);
+  const result = await withRetry(
+    () => dingtalkApi<{ list?: string[] }>(
+      account,
+      "/v1.0/contact/users/search",
+      { queryWord: name, offset: 0, size: 20, fullMatchField: 1 },
+      accessToken
+    ),
+    { account, label: "按姓名搜索用户" }
+  );
+  return result.list ?? [];
+}
+
+/**
+ * 获取用户详情
+ */
+export async function getUserDetail(
+  userId: string,
+  account: ResolvedDingTalkAccount
+): Promise<DirectoryUser> {
+  const accessToken = await getAccessToken(account);
+  const result = await withRetry(
+    () => dingtalkOapi<{ result?: Parameters<typeof toDirectoryUser>[0] }>(
+      account,
+      "/topapi/v2/user/get",
+      { userid: userId, language: "zh_CN" },
+      accessToken
+    ),
+    { account, label: "获取用户详情" }
+  );
+  if (!result.result?.userid) {
+    throw new DingTalkApiError(`用户不存在: ${userId}`, undefined, USER_NOT_FOUND_ERRCODE);
+  }
+  return toDirectoryUser(result.result);
+}
+
+/**
+ * 获取用户所在部门的上级部门链
+ * @returns 每个所属部门一条，从该部门到根部门（1）的部门 ID 列表
+ */
+export async function listUserDepartmentChains(
+  userId: string,
+  account: ResolvedDingTalkAccount
+): Promise<number[][]> {
+  const accessToken = await getAccessToken(account);
+  const result = await withRetry(
+    () => dingtalkOapi<{ result?: { parent_list?: Array<{ parent_dept_id_list?: number[] }> } }>(
+      account,
+      "/topapi/v2/department/listparentbyuser",
+      { userid: userId },
+      accessToken
+    ),
+    { account, label: "获取用户部门链" }
+  );
+  return (result.result?.parent_list ?? [])
+    .map((item) => item.parent_dept_id_list ?? [])
+    .filter((chain) => chain.length > 0);
+}
+
+/**
+ * 获取部门名称
+ */
+export async function getDepartmentName(
+  deptId: number,
+  account: ResolvedDingTalkAccount
+): Promise<string> {
+  const accessToken = await getAccessToken(account);
+  const result = await withRetry(
+    () => dingtalkOapi<{ result?: { name?: string } }>(
+      account,
+      "/topapi/v2/department/get",
+      { dept_id: deptId, language: "zh_CN" },
+      accessToken
+    ),
+    { account, label: "获取部门详情" }
+  );
+  return result.result?.name ?? String(deptId);
+}
+
+/** userId -> unionId（不会变化，长期缓存） */
+const unionIdCache = new Map<string, string>();
+
+/**
+ * 获取用户的 unionId（待办、日程等新版接口以 unionId 标识用户）
+ */
+export async function getUnionId(
+  userId: string,
+  account: ResolvedDingTalkAccount
+): Promise<string> {
+  const key = `${account.accountId}|${userId}`;
+  const cached = unionIdCache.get(key);
+  if (cached) return cached;
+
+  const user = await getUserDetail(userId, account);
+  if (!user.unionId) {
+    throw new Error(`无法获取用户 unionId: ${userId}`);
+  }
+  unionIdCache.set(key, user.unionId);
+  return user.unionId;
+}
+
+// ======================= 待办 =======================
+
+/** 待办优先级 */
+export type TodoPriority = "low" | "normal" | "high" | "urgent";
+
+/** 待办优先级对应的接口取值 */
+const TODO_PRIORITIES: Record<TodoPriority, number> = { low: 10, normal: 20, high: 30, urgent: 40 };
+
+/** 待办内容 */
+export interface TodoTaskInput {
+  /** 标题 */
+  subject: string;
+  /** 描述 */
+  description?: string;
+  /** 截止时间（毫秒时间戳） */
+  dueTime?: number;
+  /** 执行人用户 ID */
+  executorUserIds?: string[];
+  priority?: TodoPriority;
+  /** 详情链接（如回到原会话的链接） */
+  detailUrl?: string;
+}
+
+/** 待办创建结果 */
+export interface TodoTask {
+  taskId: string;
+  subject: string;
+  /** 创建人用户 ID（更新待办时需要） */
+  creatorUserId: string;
+  executorUserIds: string[];
+  dueTime?: number;
+  priority?: TodoPriority;
+}
+
+/** userId 列表 -> unionId 列表 */
+async function toUnionIds(userIds: string[], account: ResolvedDingTalkAccount): Promise<string[]> {
+  return Promise.all(userIds.map((userId) => getUnionId(userId, account)));
+}
+
+/**
+ * 创建待办
+ * 待办以 creatorUserId 的名义创建，执行人会收到钉钉待办通知
+ * 需要应用开通待办应用中待办写权限
+ */
+export async function createTodoTask(
+  creatorUserId: string,
+  input: TodoTaskInput,
+  account: ResolvedDingTalkAccount
+): Promise<TodoTask> {
+  const accessToken = await getAccessToken(account);
+  const creatorUnionId = await getUnionId(creatorUserId, account);
+  const executorUserIds = input.executorUserIds?.length ? input.executorUserIds : [creatorUserId];
+  const executorIds = await toUnionIds(executorUserIds, account);
+
+  const result = await withRetry(
+    () => dingtalkApi<{ id?: string }>(
+      account,
+      `/v1.0/todo/users/${encodeURIComponent(creatorUnionId)}/tasks?operatorId=${encodeURIComponent(creatorUnionId)}`,
+      {
+        subject: input.subject,
+        creatorId: creatorUnionId,
+        executorIds,
+        ...(input.description ? { description: input.description } : {}),
+        ...(input.dueTime ? { dueTime: input.dueTime } : {}),
+        ...(input.priority ? { priority: TODO_PRIORITIES[input.priority] } : {}),
+        ...(input.detailUrl ? { detailUrl: { appUrl: input.detailUrl, pcUrl: input.detailUrl } } : {}),
+        notifyConfigs: { dingNotify: "1" },
+      },
+      accessToken
+    ),
+    { account, label: "创建待办", retryOn: "throttle" }
+  );
+  if (!result.id) {
+    throw new Error("创建待办失败: 未返回待办 ID");
+  }
+
+  logger.log(`[待办] 创建 | taskId: ${result.id} | ${input.subject} | 执行人: ${executorUserIds.join(",")}`);
+  return {
+    taskId: result.id,
+    subject: input.subject,
+    creatorUserId,
+    executorUserIds,
+    dueTime: input.dueTime,
+    priority: input.priority,
+  };
+}
+
+/**
+ * 更新待办（标题、描述、截止时间、执行人、完成状态）
+ * @param creatorUserId - 待办的创建人
+ */
+export async function updateTodoTask(
+  creatorUserId: string,
+  taskId: string,
+  patch: Partial<Omit<TodoTaskInput, "detailUrl">> & { done?: boolean },
+  account: ResolvedDingTalkAccount
+): Promise<void> {
+  const accessToken = await getAccessToken(account);
+  const creatorUnionId = await getUnionId(creatorUserId, account);
+  const executorIds = patch.executorUserIds?.length ? await toUnionIds(patch.executorUserIds, account) : undefined;
+
+  await withRetry(
+    () => dingtalkApi(
+      account,
+      `/v1.0/todo/users/${encodeURIComponent(creatorUnionId)}/tasks/${encodeURIComponent(taskId)}?operatorId=${encodeURIComponent(creatorUnionId)}`,
+      {
+        ...(patch.subject ? { subject: patch.subject } : {}),
+        ...(patch.description !== undefined ? { description: patch.description } : {}),
+        ...(patch.dueTime ? { dueTime: patch.dueTime } : {}),
+        ...(patch.priority ? { priority: TODO_PRIORITIES[patch.priority] } : {}),
+        ...(executorIds ? { executorIds } : {}),
+        ...(patch.done !== undefined ? { done: patch.done } : {}),
+      },
+      accessToken,
+      "PUT"
+    ),
+    { account, label: "更新待办" }
+  );
+  logger.log(`[待办] 更新 | taskId: ${taskId}${patch.done ? " | 已完成" : ""}`);
+}
+
+/** 将待办标记为已完成 */
+export async function completeTodoTask(
+  creatorUserId: string,
+  taskId: string,
+  account: ResolvedDingTalkAccount
+): Promise<void> {
+  await updateTodoTask(creatorUserId, taskId, { done: true }, account);
+}
+
+// ======================= 日程 =======================
+
+/** 日程内容 */
+export interface CalendarEventInput {
+  /** 标题 */
+  summary: string;
+  description?: string;
+  /** 开始时间（毫秒时间戳；全天日程取当天任意时刻） */
+  start: number;
+  /** 结束时间（毫秒时间戳；全天日程为最后一天次日的任意时刻，结束日不含在内） */
+  end: number;
+  /** 是否全天日程 */
+  isAllDay?: boolean;
+  /** 参与人用户 ID（不含组织者） */
+  attendeeUserIds?: string[];
+  /** 地点 */
+  location?: string;
+}
+
+/** 日程创建结果 */
+export interface CalendarEvent {
+  eventId: string;
+  summary: string;
+  start: number;
+  end: number;
+  isAllDay: boolean;
+  /** 组织者用户 ID */
+  organizerUserId: string;
+  attendeeUserIds: string[];
+  location?: string;
+}
+
+/** 忙碌时段 */
+export interface BusySlot {
+  start: number;
+  end: number;
+  /** busy: 忙碌，tentative: 暂定 */
+  status: "busy" | "tentative";
+}
+
+/** 单个用户的忙闲 */
+export interface UserFreeBusy {
+  userId: string;
+  busy: BusySlot[];
+  /** 该用户的忙闲查询失败时的原因 */
+  error?: string;
+}
+
+/** 日程接口的时间格式 */
+type CalendarDateTime = { dateTime?: string; date?: string; timeZone?: string };
+
+/** 日程接口需要的权限点 */
+const CALENDAR_SCOPES = {
+  write: "日历应用中日程写权限（Calendar.Event.Write）",
+  schedule: "日历应用中忙闲读权限（Calendar.EventSchedule.Read）",
+} as const;
+
+/**
+ * 调用日程接口，缺少日历权限时给出需要开通的权限点
+ */
+async function withCalendarScope<T>(scope: keyof typeof CALENDAR_SCOPES, fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (err) {
+    if (!isPermissionError(err)) throw err;
+    const { status, code } = err as DingTalkApiError;
+    throw new DingTalkApiError(
+      `应用缺少日历权限，请在钉钉开放平台为应用开通「${CALENDAR_SCOPES[scope]}」后重试 | ${(err as Error).message}`,
+      status,
+      code
+    );
+  }
+}
+
+/** 毫秒时间戳 -> 指定时区的日期（yyyy-MM-dd） */
+function formatCalendarDate(time: number, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(time);
+}
+
+/** 毫秒时间戳 -> 日程接口时间（全天日程只传日期） */
+function toCalendarDateTime(time: number, isAllDay: boolean, timeZone: string): CalendarDateTime {
+  return isAllDay ? { date: formatCalendarDate(time, timeZone) } : { dateTime: new Date(time).toISOString(), timeZone };
+}
+
+/** 日程接口时间 -> 毫秒时间戳（只有日期时按该时区的零点） */
+function fromCalendarDateTime(value: CalendarDateTime | undefined, timeZone: string): number {
+  if (value?.dateTime) return new Date(value.dateTime).getTime();
+  if (!value?.date) return NaN;
+  const utcMidnight = new Date(`${value.date}T00:00:00Z`).getTime();
+  // 该时区零点 = UTC 零点 - 时区偏移
+  const local = new Date(new Date(utcMidnight).toLocaleString("en-US", { timeZone: value.timeZone ?? timeZone })).getTime();
+  const utc = new Date(new Date(utcMidnight).toLocaleString("en-US", { timeZone: "UTC" })).getTime();
+  return utcMidnight - (local - utc);
+}
+
+/**
+ * 创建日程
+ * 日程创建在组织者的主日历中，参与人会收到日程邀请
+ * 需要应用开通日历应用中日程写权限
+ */
+export async function createCalendarEvent(
+  organizerUserId: string,
+  input: CalendarEventInput,
+  account: ResolvedDingTalkAccount
+): Promise<CalendarEvent> {
+  const accessToken = await getAccessToken(account);
+  const organizerUnionId = await getUnionId(organizerUserId, account);
+  const attendeeUserIds = [...new Set(input.attendeeUserIds ?? [])].filter((userId) => userId !== organizerUserId);
+  const attendeeIds = await toUnionIds(attendeeUserIds, account);
+  const isAllDay = input.isAllDay ?? false;
+  const { timeZone } = account.calendar;
+
+  const result = await withCalendarScope("write", () =>
+    withRetry(
+      () => dingtalkApi<{ id?: string }>(
+        account,
+        `/v1.0/calendar/users/${encodeURIComponent(organizerUnionId)}/calendars/primary/events`,
+        {
+          summary: input.summary,
+          ...(input.description ? { description: input.description } : {}),
+          start: toCalendarDateTime(input.start, isAllDay, timeZone),
+          end: toCalendarDateTime(input.end, isAllDay, timeZone),
+          isAllDay,
+          attendees: attendeeIds.map((id) => ({ id, isOptional: false })),
+          ...(input.location ? { location: { displayName: input.location } } : {}),
+        },
+        accessToken
+      ),
+      { account, label: "创建日程", retryOn: "throttle" }
+    )
+  );
+  if (!result.id) {
+    throw new Error("创建日程失败: 未返回日程 ID");
+  }
+
+  logger.log(`[日程] 创建 | eventId: ${result.id} | ${input.summary} | 参与人: ${attendeeUserIds.join(",") || "无"}`);
+  return {
+    eventId: result.id,
+    summary: input.summary,
+    start: input.start,
+    end: input.end,
+    isAllDay,
+    organizerUserId,
+    attendeeUserIds,
+    location: input.location,
+  };
+}
+
+/**
+ * 查询用户在时间范围内的忙闲
+ * 以 organizerUserId 的身份查询，需要应用开通日历应用中忙闲读权限
+ */
+export async function queryFreeBusy(
+  organizerUserId: string,
+  userIds: string[],
+  range: { start: number; end: number },
+  account: ResolvedDingTalkAccount
+): Promise<UserFreeBusy[]> {
+  const accessToken = await getAccessToken(account);
+  const organizerUnionId = await getUnionId(organizerUserId, account);
+  const uniqueUserIds = [...new Set(userIds)];
+  const unionIds = await toUnionIds(uniqueUserIds, account);
+  const userIdByUnionId = new Map(unionIds.map((unionId, index) => [unionId, uniqueUserIds[index]]));
+  const { timeZone } = account.calendar;
+
+  const result = await withCalendarScope("schedule", () =>
+    withRetry(
+      () => dingtalkApi<{
+        scheduleInformation?: Array<{
+          userId?: string;
+          error?: string;
+          scheduleItems?: Array<{ status?: string; start?: CalendarDateTime; end?: CalendarDateTime }>;
+        }>;
+      }>(
+        account,
+        `/v1.0/calendar/users/${encodeURIComponent(organizerUnionId)}/querySchedule`,
+        {
+          userIds: unionIds,
+          startTime: new Date(range.start).toISOString(),
+          endTime: new Date(range.end).toISOString(),
+        },
+        accessToken
+      ),
+      { account, label: "查询忙闲" }
+    )
+  );
+
+  return (result.scheduleInformation ?? []).map((info) => ({
+    userId: userIdByUnionId.get(info.userId ?? "") ?? info.userId ?? "",
+    busy: (info.scheduleItems ?? [])
+      .filter((item) => item.status?.toUpperCase() !== "FREE")
+      .map((item) => ({
+        start: fromCalendarDateTime(item.start, timeZone),
+        end: fromCalendarDateTime(item.end, timeZone),
+        status: item.status?.toUpperCase() === "TENTATIVE" ? "tentative" as const : "busy" as const,
+      }))
+      .filter((slot) => !Number.isNaN(slot.start) && !Number.isNaN(slot.end)),
+    ...(info.error ? { error: info.error } : {}),
+  }));
+}
+
+// ======================= 场景群 =======================
+
+/** 场景群成员分页大小（接口上限 1000） */
+const SCENE_GROUP_MEMBER_PAGE_SIZE = 1000;
+
+/** 创建场景群的结果 */
+export interface CreateSceneGroupResult {
+  /** 群会话 ID，可直接作为 chat:<openConversationId> 发送目标 */
+  openConversationId: string;
+  chatId?: string;
+}
+
+/**
+ * 按模板创建场景群
+ * 模板中配置的机器人会自动入群
+ * 需要应用开通场景群管理权限（qyapi_chat_manage）
+ */
+export async function createSceneGroup(
+  params: {
+    title: string;
+    templateId: string;
+    ownerUserId: string;
+    userIds: string[];
+    subadminIds?: string[];
+  },
+  account: ResolvedDingTalkAccount
+): Promise<CreateSceneGroupResult> {
+  const accessToken = await getAccessToken(account);
+  const members = [...new Set([params.ownerUserId, ...params.userIds])];
+  // 带上 uuid 保证重试时不会重复建群
+  const uuid = `${account.clientId}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const result = await withRetry(
+    () => dingtalkOapi<{ result?: { open_conversation_id?: string; chat_id?: string } }>(
+      account,
+      "/topapi/im/chat/scenegroup/create",
+      {
+        title: params.title,
+        template_id: params.templateId,
+        owner_user_id: params.ownerUserId,
+        user_ids: members.join(","),
+        ...(params.subadminIds?.length ? { subadmin_ids: params.subadminIds.join(",") } : {}),
+        uuid,
+      },
+      accessToken
+    ),
+    { account, label: "创建场景群" }
+  );
+
+  const openConversationId = result.result?.open_conversation_id;
+  if (!openConversationId) {
+    throw new Error("创建场景群失败: 未返回 openConversationId");
+  }
+  logger.log(`[场景群] 创建 | ${params.title} | openConversationId: ${openConversationId} | 成员: ${members.length}`);
+  return { openConversationId, chatId: result.result?.chat_id };
+}
+
+/**
+ * 场景群成员变更
+ */
+async function changeSceneGroupMembers(
+  kind: "add" | "delete",
+  openConversationId: string,
+  userIds: string[],
+  account: ResolvedDingTalkAccount
+): Promise<void> {
+  const accessToken = await getAccessToken(account);
+  await withRetry(
+    () => dingtalkOapi(
+      account,
+      `/topapi/im/chat/scenegroup/member/${kind}`,
+      { open_conversation_id: openConversationId, user_ids: userIds.join(",") },
+      accessToken
+    ),
+    { account, label: kind === "add" ? "添加群成员" : "移除群成员" }
+  );
+  logger.log(`[场景群] ${kind === "add" ? "添加" : "移除"}成员 | openConversationId: ${openConversationId} | ${userIds.join(",")}`);
+}
+
+/** 向场景群添加成员 */
+export async function addSceneGroupMembers(
+  openConversationId: string,
+  userIds: string[],
+  account: ResolvedDingTalkAccount
+): Promise<void> {
+  await changeSceneGroupMembers("add", openConversationId, userIds, account);
+}
+
+/** 从场景群移除成员 */
+export async function removeSceneGroupMembers(
+  openConversationId: string,
+  userIds: string[],
+  account: ResolvedDingTalkAccount
+): Promise<void> {
+  await changeSceneGroupMembers("delete", openConversationId, userIds, account);
+}
+
+/** 修改场景群名称 */
+export async function updateSceneGroupTitle(
+  openConversationId: string,
+  title: string,
+  account: ResolvedDingTalkAccount
+): Promise<void> {
+  const accessToken = await getAccessToken(account);
+  await withRetry(
+    () => dingtalkOapi(
+      account,
+      "/topapi/im/chat/scenegroup/update",
+      { open_conversation_id: openConversationId, title },
+      accessToken
+    ),
+    { account, label: "修改群名称" }
+  );
+  logger.log(`[场景群] 修改群名称 | openConversationId: ${openConversationId} | ${title}`);
+}
+
+/** 场景群信息 */
+export interface SceneGroupInfo {
+  openConversationId: string;
+  title?: string;
+  ownerUserId?: string;
+  /** 成员用户 ID */
+  memberUserIds: string[];
+}
+
+/**
+ * 获取场景群信息和成员列表
+ */
+export async function getSceneGroupInfo(
+  openConversationId: string,
+  account: ResolvedDingTalkAccount
+): Promise<SceneGroupInfo> {
+  const accessToken = await getAccessToken(account);
+  const info = await withRetry(
+    () => dingtalkOapi<{ result?: { title?: string; owner_staff_id?: string } }>(
+      account,
+      "/topapi/im/chat/scenegroup/get",
+      { open_conversation_id: openConversationId },
+      accessToken
+    ),
+    { account, label: "获取群信息" }
+  );
+
+  const memberUserIds: string[] = [];
+  let cursor = "0";
+  for (;;) {
+    const page = await withRetry(
+      () => dingtalkOapi<{ result?: { member_user_ids?: string[]; has_more?: boolean; next_cursor?: string | number } }>(
+        account,
+        "/topapi/im/chat/scenegroup/member/get",
+        { open_conversation_id: openConversationId, size: SCENE_GROUP_MEMBER_PAGE_SIZE, cursor },
+        accessToken
+      ),
+      { account, label: "获取群成员" }
+    );
+    memberUserIds.push(...(page.result?.member_user_ids ?? []));
+    if (!page.result?.has_more || page.result.next_cursor === undefined) break;
+    cursor = String(page.result.next_cursor);
+  }
+
+  return {
+    openConversationId,
+    title: info.result?.title,
+    ownerUserId: info.result?.owner_staff_id,
+    memberUserIds,
+  };
+}
+
+// ======================= 撤回消息 =======================
+
+/** 撤回结果 */
+export interface RecallMessagesResult {
+  /** 撤回成功的 messageId */
+  recalled: string[];
+  /** 撤回失败的 messageId 及原因 */
+  failed: Record<string, string>;
+}
+
+/** 解析批量撤回接口的返回值 */
+function parseRecallResponse(
+  processQueryKeys: string[],
+  result: { successResult?: string[]; failedResult?: Record<string, string> }
+): RecallMessagesResult {
+  const failed = result.failedResult ?? {};
+  const recalled = result.successResult ?? processQueryKeys.filter((key) => !(key in failed));
+  return { recalled, failed };
+}
+
+/**
+ * 批量撤回单聊消息（BatchRecallOTO）
+ * @param processQueryKeys - 发送时返回的 messageId
+ */
+export async function recallOTOMessages(
+  processQueryKeys: string[],
+  options: SendMessageOptions
+): Promise<RecallMessagesResult> {
+  logger.log(`[撤回消息] 单聊 | count: ${processQueryKeys.length}`);
+  const accessToken = await getAccessToken(options.account);
+
+  const result = await withRetry(
+    () => dingtalkApi<{ successResult?: string[]; failedResult?: Record<string, string> }>(
+      options.account,
+      "/v1.0/robot/otoMessages/batchRecall",
+      {
+        robotCode: options.account.clientId,
+        processQueryKeys,
+      },
+      accessToken
+    ),
+    { account: options.account, label: "撤回单聊消息", retryOn: "throttle" }
+  );
+
+  return parseRecallResponse(processQueryKeys, result);
+}
+
+/**
+ * 批量撤回群聊消息（OrgGroupRecall）
+ * @param processQueryKeys - 发送时返回的 messageId
+ */
+export async function recallGroupMessages(
+  openConversationId: string,
+  processQueryKeys: string[],
+  options: SendMessageOptions
+): Promise<RecallMessagesResult> {
+  logger.log(`[撤回消息] 群聊 | openConversationId: ${openConversationId} | count: ${processQueryKeys.length}`);
+  const accessToken = await getAccessToken(options.account);
+
+  const result = await withRetry(
+    () => dingtalkApi<{ successResult?: string[]; failedResult?: Record<string, string> }>(
+      options.account,
+      "/v1.0/robot/groupMessages/recall",
+      {
+        robotCode: options.account.clientId,
+        openConversationId,
+        processQueryKeys,
+      },
+      accessToken
+    ),
+    { account: options.account, label: "撤回群聊消息", retryOn: "throttle" }
+  );
+
+  return parseRecallResponse(processQueryKeys, result);
+}
+
+// ======================= 已读状态 =======================
+
+/** 单聊消息已读状态 */
+export interface OTOReadStatus {
+  /** 发送状态（如 SUCCESS / PROCESSING） */
+  sendStatus?: string;
+  /** 已读用户 */
+  readUserIds: string[];
+  /** 未读用户 */
+  unreadUserIds: string[];
+  /** 已读详情 */
+  readers: Array<{ userId: string; name?: string; readTimestamp?: number }>;
+}
+
+/**
+ * 查询单聊主动消息的已读状态（BatchOTOQuery）
+ * @param processQueryKey - 发送时返回的 messageId
+ */
+export async function getOTOReadStatus(
+  processQueryKey: string,
+  options: SendMessageOptions
+): Promise<OTOReadStatus> {
+  const accessToken = await getAccessToken(options.account);
+
+  const query = new URLSearchParams({
+    robotCode: options.account.clientId,
+    processQueryKey,
+  });
+  const result = await withRetry(
+    () => dingtalkApi<{
+      sendStatus?: string;
+      messageReadInfoList?: Array<{ userId?: string; name?: string; readStatus?: string; readTimestamp?: number }>;
+    }>(options.account, `/v1.0/robot/oToMessages/readStatus?${query.toString()}`, {}, accessToken, "GET"),
+    { account: options.account, label: "查询已读状态" }
+  );
+
+  const status: OTOReadStatus = {
+    sendStatus: result.sendStatus,
+    readUserIds: [],
+    unreadUserIds: [],
+    readers: [],
+  };
+  for (const info of result.messageReadInfoList ?? []) {
+    if (!info.userId) continue;
+    if (info.readStatus === "READ") {
+      status.readUserIds.push(info.userId);
+      status.readers.push({ userId: info.userId, name: info.name, readTimestamp: info.readTimestamp });
+    } else {
+      status.unreadUserIds.push(info.userId);
+    }
+  }
+  return status;
+}
+
 // ======================= 统一目标路由 =======================
 
 /**
@@ -227,6 +1576,24 @@ export function isGroupTarget(to: string): boolean {
   return to.startsWith("chat:");
 }
 
+/**
+ * 判断目标是否为多人目标
+ * - users:<userId>,<userId>,...：多个用户
+ * - dept:<deptId>：部门（含子部门）的所有成员
+ */
+export function isMultiTarget(to: string): boolean {
+  return to.startsWith("users:") || to.startsWith("dept:");
+}
+
+/** 展开单人或多人目标为用户 ID 列表（去重） */
+export async function resolveTargetUserIds(to: string, account: ResolvedDingTalkAccount): Promise<string[]> {
+  if (to.startsWith("dept:")) {
+    return listDepartmentUserIds(to.slice(5), account);
+  }
+  const ids = to.startsWith("users:") ? to.slice(6).split(",") : [extractTargetId(to)];
+  return [...new Set(ids.map((id) => id.trim()).filter(Boolean))];
+}
+
 /** 从 to 中提取实际 ID（去除 chat: / user: 前缀） */
 export function extractTargetId(to: string): string {
   if (to.startsWith("chat:")) return to.slice(5);
@@ -234,24 +1601,73 @@ export function extractTargetId(to: string): string {
   return to;
 }
 
+/** 发送指纹 -> 进行中（含重试中）的发送 */
+const inflightSends = new Map<string, Promise<SendMessageResult>>();
+
+/**
+ * 幂等保护：同一条消息还在发送或重试时，重复投递（如并发的重复调用）复用进行中的结果，避免对方收到重复消息
+ * 发送完成（成功或失败）后立即移除记录，之后再发相同内容视为新消息
+ */
+function sendOnce(fingerprint: string, send: () => Promise<SendMessageResult>): Promise<SendMessageResult> {
+  const key = crypto.createHash("sha1").update(fingerprint).digest("hex");
+  const existing = inflightSends.get(key);
+  if (existing) {
+    logger.warn("[主动发送] 相同消息正在发送中，复用进行中的发送结果");
+    return existing;
+  }
+
+  const promise = send();
+  inflightSends.set(key, promise);
+  const forget = () => {
+    if (inflightSends.get(key) === promise) inflightSends.delete(key);
+  };
+  promise.then(forget, forget);
+  return promise;
+}
+
 /**
- * 统一发送消息（自动根据 to 格式路由到单聊或群聊）
+ * 统一发送消息（自动根据 to 格式路由到单聊、群聊或多人发送）
+ * 经过幂等保护后进入该会话的出站发送队列
+ * @param mergeable - 是否为可合并的 markdown 文本（排队期间相邻文本合并为一条发送）
  */
 async function sendMessage(
   to: string,
   msgKey: DingTalkMsgKey,
   msgParam: Record<string, unknown>,
-  options: SendMessageOptions
+  options: SendMessageOptions,
+  mergeable = false
 ): Promise<SendMessageResult> {
-  const targetId = extractTargetId(to);
-  if (isGroupTarget(to)) {
-    return sendGroupMessage(targetId, msgKey, msgParam, options);
+  if (isMultiTarget(to)) {
+    const fingerprint = [options.account.accountId, "multi", to, msgKey, JSON.stringify(msgParam)].join("|");
+    return sendOnce(fingerprint, () =>
+      enqueueOutbound(options.account, to, { run: () => sendMultiMessage(to, msgKey, msgParam, options) })
+    );
   }
-  return sendOTOMessage(targetId, msgKey, msgParam, options);
+
+  const targetId = extractTargetId(to);
+  const isGroup = isGroupTarget(to);
+  const dispatch = (param: Record<string, unknown>) =>
+    isGroup
+      ? sendGroupMessage(targetId, msgKey, param, options)
+      : sendOTOMessage(targetId, msgKey, param, options);
+
+  const fingerprint = [options.account.accountId, isGroup ? "group" : "user", targetId, msgKey, JSON.stringify(msgParam)].join("|");
+  const queueTarget = isGroup ? `chat:${targetId}` : targetId;
+  return sendOnce(fingerprint, () =>
+    mergeable && typeof msgParam.text === "string"
+      ? enqueueOutbound(options.account, queueTarget, {
+          merge: {
+            mergeKey: `api|${msgKey}`,
+            text: msgParam.text,
+            send: (text) => dispatch({ ...msgParam, title: deriveMarkdownTitle(text), text }),
+          },
+        })
+      : enqueueOutbound(options.account, queueTarget, { run: () => dispatch(msgParam) })
+  );
 }
 
 /**
- * 发送文本消息（markdown 格式，自动路由群聊/单聊）
+ * 发送文本消息（转换为钉钉 Markdown 发送，自动路由群聊/单聊）
  */
 export async function sendTextMessage(
   to: string,
@@ -262,16 +1678,64 @@ export async function sendTextMessage(
   const isGroup = isGroupTarget(to);
   logger.log(`[主动发送] 文本消息 | ${isGroup ? "群聊" : "单聊"} | to: ${to} | ${contentPreview}${content.length > 50 ? "..." : ""}`);
 
-  const title = content.slice(0, 10).replace(/\n/g, " ");
-  const result = await sendMessage(to, "sampleMarkdown", { title, text: content }, options);
+  const text = renderDingTalkMarkdown(content);
+  const result = await sendMessage(to, "sampleMarkdown", { title: deriveMarkdownTitle(text), text }, options, true);
 
   logger.log(`[主动发送] 文本消息发送成功 | messageId: ${result.messageId}`);
   return result;
 }
 
+/** DING 提醒方式对应的 remindType */
+const DING_REMIND_TYPES: Record<DingRemindType, number> = { app: 1, sms: 2, call: 3 };
+
+/** DING 发送结果 */
+export interface SendDingResult {
+  /** DING 消息 ID */
+  openDingId: string;
+  /** 接收人 */
+  userIds: string[];
+  type: DingRemindType;
+}
+
+/**
+ * 发送 DING 提醒（应用内 / 短信 / 电话）
+ * 需要应用开通机器人发送 DING 消息的权限，短信和电话按钉钉的规则计费
+ */
+export async function sendDingMessage(
+  userIds: string[],
+  content: string,
+  options: SendMessageOptions & { type: DingRemindType }
+): Promise<SendDingResult> {
+  const { account, type } = options;
+  logger.log(`[DING] 发送 | ${type} | to: ${userIds.join(",")} | ${content.slice(0, 50).replace(/\n/g, " ")}`);
+
+  const accessToken = await getAccessToken(account);
+  // 发送非幂等，只在限流（请求未被处理）时重试
+  const result = await withRetry(
+    () => dingtalkApi<{ openDingId?: string }>(
+      account,
+      "/v1.0/robot/ding/send",
+      {
+        robotCode: account.clientId,
+        remindType: DING_REMIND_TYPES[type],
+        receiverUserIdList: userIds,
+        content,
+      },
+      accessToken
+    ),
+    { account, label: "DING 发送", retryOn: "throttle" }
+  );
+  if (!result.openDingId) {
+    throw new Error("DING 发送失败: 未返回 openDingId");
+  }
+
+  logger.log(`[DING] 发送成功 | openDingId: ${result.openDingId}`);
+  return { openDingId: result.openDingId, userIds, type };
+}
+
 /**
  * 发送图片消息（自动路由群聊/单聊）
- * @param photoURL - 图片的公网可访问 URL
+ * @param photoURL - 图片的 mediaId（通过 uploadMedia 获取）或公网可访问 URL，不能带 access_token
  */
 export async function sendImageMessage(
   to: string,
@@ -377,12 +1841,7 @@ export async function sendFileMessage(
  */
 export async function sendLinkMessage(
   to: string,
-  options: SendMessageOptions & {
-    title: string;
-    text: string;
-    messageUrl: string;
-    picUrl?: string;
-  }
+  options: SendMessageOptions & LinkMessage
 ): Promise<SendMessageResult> {
   logger.log(`[主动发送] 链接消息 | to: ${to} | title: ${options.title}`);
 
@@ -402,6 +1861,363 @@ export async function sendLinkMessage(
   return result;
 }
 
+/** 竖向独立跳转按钮的最大数量（sampleActionCard2 ~ sampleActionCard5） */
+const MAX_ACTION_CARD_BUTTONS = 5;
+
+/**
+ * 根据按钮数量和排列方向构造 ActionCard 的 msgKey 和 msgParam
+ */
+function buildActionCardParam(card: ActionCardMessage): {
+  msgKey: DingTalkMsgKey;
+  msgParam: Record<string, string>;
+} {
+  const { title, text } = card;
+  let buttons = card.buttons.filter((btn) => btn.title && btn.url);
+
+  if (buttons.length === 0) {
+    throw new Error("ActionCard 至少需要一个按钮");
+  }
+
+  // 单按钮：整体跳转
+  if (buttons.length === 1) {
+    return {
+      msgKey: "sampleActionCard",
+      msgParam: { title, text, singleTitle: buttons[0].title, singleURL: buttons[0].url },
+    };
+  }
+
+  // 横向按钮：钉钉只提供 2 个按钮的横向模板
+  if (card.orientation === "horizontal") {
+    if (buttons.length === 2) {
+      return {
+        msgKey: "sampleActionCard6",
+        msgParam: {
+          title,
+          text,
+          buttonTitle1: buttons[0].title,
+          buttonUrl1: buttons[0].url,
+          buttonTitle2: buttons[1].title,
+          buttonUrl2: buttons[1].url,
+        },
+      };
+    }
+    logger.warn(`[ActionCard] 横向排列仅支持 2 个按钮，当前 ${buttons.length} 个，改为竖向排列`);
+  }
+
+  // 竖向按钮：2~5 个，独立跳转
+  if (buttons.length > MAX_ACTION_CARD_BUTTONS) {
+    logger.warn(`[ActionCard] 最多支持 ${MAX_ACTION_CARD_BUTTONS} 个按钮，已截断 ${buttons.length - MAX_ACTION_CARD_BUTTONS} 个`);
+    buttons = buttons.slice(0, MAX_ACTION_CARD_BUTTONS);
+  }
+
+  const msgParam: Record<string, string> = { title, text };
+  buttons.forEach((btn, index) => {
+    msgParam[`actionTitle${index + 1}`] = btn.title;
+    msgParam[`actionURL${index + 1}`] = btn.url;
+  });
+
+  return {
+    msgKey: `sampleActionCard${buttons.length}` as DingTalkMsgKey,
+    msgParam,
+  };
+}
+
+/**
+ * 发送 ActionCard 卡片消息（自动路由群聊/单聊）
+ * 根据按钮数量和排列方向自动选择模板：
+ * - 1 个按钮：整体跳转（sampleActionCard）
+ * - 2~5 个按钮：竖向独立跳转（sampleActionCard2 ~ sampleActionCard5）
+ * - 2 个按钮 + horizontal：横向独立跳转（sampleActionCard6）
+ */
+export async function sendActionCardMessage(
+  to: string,
+  card: ActionCardMessage,
+  options: SendMessageOptions
+): Promise<SendMessageResult> {
+  const { msgKey, msgParam } = buildActionCardParam(card);
+  logger.log(`[主动发送] 卡片消息 | to: ${to} | msgKey: ${msgKey} | title: ${card.title}`);
+
+  const result = await sendMessage(to, msgKey, msgParam, options);
+
+  logger.log(`[主动发送] 卡片消息发送成功 | messageId: ${result.messageId}`);
+  return result;
+}
+
+/**
+ * 发送 FeedCard 多链接消息（自动路由群聊/单聊）
+ *
+ * 机器人主动发送接口没有 feedCard 模板，这里将多条链接渲染为一条 Markdown 消息：
+ * 每条链接一行标题，有配图时在标题上方展示图片。
+ */
+export async function sendFeedCardMessage(
+  to: string,
+  links: FeedCardLink[],
+  options: SendMessageOptions
+): Promise<SendMessageResult> {
+  const validLinks = links.filter((link) => link.title && link.messageURL);
+  if (validLinks.length === 0) {
+    throw new Error("FeedCard 至少需要一条链接");
+  }
+
+  logger.log(`[主动发送] FeedCard 消息 | to: ${to} | links: ${validLinks.length}`);
+
+  const text = validLinks
+    .map((link) => {
+      const image = link.picURL ? `![](${link.picURL})\n\n` : "";
+      return `${image}#### [${link.title}](${link.messageURL})`;
+    })
+    .join("\n\n");
+
+  const result = await sendMessage(to, "sampleMarkdown", { title: validLinks[0].title, text }, options);
+
+  logger.log(`[主动发送] FeedCard 消息发送成功 | messageId: ${result.messageId}`);
+  return result;
+}
+
+/**
+ * 通过主动发送 API 发送 webhook 消息体（sessionWebhook 过期或失败时的降级，自动路由群聊/单聊）
+ *
+ * - text：sampleText（主动发送不支持 @，提及信息会丢失）
+ * - markdown：sampleMarkdown
+ * - link：sampleLink
+ * - actionCard：sampleActionCard 系列模板
+ * - feedCard：渲染为一条 Markdown 链接列表
+ */
+export async function sendReplyBody(
+  to: string,
+  body: ReplyBody,
+  options: SendMessageOptions
+): Promise<SendMessageResult> {
+  switch (body.msgtype) {
+    case "text": {
+      logger.log(`[主动发送] 文本消息（纯文本） | to: ${to}`);
+      return sendMessage(to, "sampleText", { content: body.text.content }, options);
+    }
+    case "markdown":
+      return sendTextMessage(to, body.markdown.text, options);
+    case "link":
+      return sendLinkMessage(to, { ...options, ...body.link });
+    case "actionCard": {
+      const { title, text, singleTitle, singleURL, btns, btnOrientation } = body.actionCard;
+      const buttons = singleTitle && singleURL
+        ? [{ title: singleTitle, url: singleURL }]
+        : (btns ?? []).map((btn) => ({ title: btn.title, url: btn.actionURL }));
+      return sendActionCardMessage(
+        to,
+        { title, text, buttons, orientation: btnOrientation === "1" ? "horizontal" : "vertical" },
+        options
+      );
+    }
+    case "feedCard":
+      return sendFeedCardMessage(to, body.feedCard.links, options);
+  }
+}
+
+// ======================= AI 卡片（流式回复） =======================
+
+/**
+ * AI 卡片流程状态（官方 AI 卡片模板的 flowStatus 变量）
+ * - 1: 处理中
+ * - 2: 输入中
+ * - 3: 完成
+ * - 5: 失败
+ */
+export type AICardFlowStatus = "1" | "2" | "3" | "5";
+
+/** AI 卡片模板中承载 Markdown 正文的变量名 */
+export const AI_CARD_CONTENT_KEY = "msgContent";
+
+/**
+ * 构造卡片投放场域参数（群聊投放到群，单聊投放到机器人会话）
+ * @param supportForward - 是否允许转发卡片（互动卡片的回传会进入原会话，不允许转发）
+ */
+function buildCardDeliverModel(to: string, account: ResolvedDingTalkAccount, supportForward = true): Record<string, unknown> {
+  if (isMultiTarget(to)) {
+    throw new Error(`卡片不支持多人发送目标: ${to}`);
+  }
+  const targetId = extractTargetId(to);
+  if (isGroupTarget(to)) {
+    return {
+      openSpaceId: `dtv1.card//IM_GROUP.${targetId}`,
+      imGroupOpenSpaceModel: { supportForward },
+      imGroupOpenDeliverModel: { robotCode: account.clientId },
+    };
+  }
+  return {
+    openSpaceId: `dtv1.card//IM_ROBOT.${targetId}`,
+    imRobotOpenSpaceModel: { supportForward },
+    imRobotOpenDeliverModel: { spaceType: "IM_ROBOT" },
+  };
+}
+
+/**
+ * 创建并投放 AI 卡片（自动路由群聊/单聊）
+ * @param outTrackId - 卡片实例唯一标识，后续流式更新和状态更新都通过它定位卡片
+ */
+export async function createAICard(
+  to: string,
+  outTrackId: string,
+  options: SendMessageOptions
+): Promise<void> {
+  const isGroup = isGroupTarget(to);
+  logger.log(`[AI 卡片] 创建卡片 | ${isGroup ? "群聊" : "单聊"} | to: ${to} | outTrackId: ${outTrackId}`);
+
+  const accessToken = await getAccessToken(options.account);
+
+  // outTrackId 唯一，只在限流（请求未被处理）时重试
+  await withRetry(
+    () => dingtalkApi(
+      options.account,
+      "/v1.0/card/instances/createAndDeliver",
+      {
+        cardTemplateId: options.account.cardTemplateId,
+        outTrackId,
+        cardData: {
+          cardParamMap: {
+            flowStatus: "1" satisfies AICardFlowStatus,
+            [AI_CARD_CONTENT_KEY]: "",
+          },
+        },
+        callbackType: "STREAM",
+        userIdType: 1,
+        ...buildCardDeliverModel(to, options.account),
+      },
+      accessToken
+    ),
+    { account: options.account, label: "投放卡片", retryOn: "throttle" }
+  );
+
+  logger.log(`[AI 卡片] 创建成功 | outTrackId: ${outTrackId}`);
+}
+
+/**
+ * 更新卡片实例的变量（AI 卡片的 flowStatus / msgContent，互动卡片的 status 等）
+ */
+export async function updateCardData(
+  outTrackId: string,
+  cardParamMap: Record<string, string>,
+  options: SendMessageOptions
+): Promise<void> {
+  const accessToken = await getAccessToken(options.account);
+
+  // 按 key 覆盖更新，可安全重试
+  await withRetry(
+    () => dingtalkApi(
+      options.account,
+      "/v1.0/card/instances",
+      {
+        outTrackId,
+        cardData: { cardParamMap },
+        cardUpdateOptions: { updateCardDataByKey: true },
+      },
+      accessToken,
+      "PUT"
+    ),
+    { account: options.account, label: "更新卡片" }
+  );
+}
+
+/**
+ * 流式更新 AI 卡片正文（全量覆盖）
+ * @param content - 截至目前的完整 Markdown 内容
+ */
+export async function streamAICard(
+  outTrackId: string,
+  content: string,
+  options: SendMessageOptions & {
+    /** 是否为最后一次流式更新 */
+    isFinalize?: boolean;
+    /** 是否以错误状态结束 */
+    isError?: boolean;
+  }
+): Promise<void> {
+  const accessToken = await getAccessToken(options.account);
+
+  // 全量覆盖更新，可安全重试
+  await withRetry(
+    () => dingtalkApi(
+      options.account,
+      "/v1.0/card/streaming",
+      {
+        outTrackId,
+        guid: crypto.randomUUID(),
+        key: AI_CARD_CONTENT_KEY,
+        content,
+        isFull: true,
+        isFinalize: options.isFinalize ?? false,
+        isError: options.isError ?? false,
+      },
+      accessToken,
+      "PUT"
+    ),
+    { account: options.account, label: "流式更新卡片" }
+  );
+}
+
+// ======================= 互动卡片（按钮回传） =======================
+
+/**
+ * 发送互动卡片（自动路由群聊/单聊）
+ * 使用账户配置的 interactiveCardTemplateId，按钮点击通过 Stream 回调（TOPIC_CARD）回传
+ *
+ * 模板变量约定：
+ * - title: 标题
+ * - markdown: 正文
+ * - buttons: 按钮列表（JSON 字符串，[{ id, text, style }]）
+ * - status: 按钮下方的处理状态文字（初始为空）
+ * - disabled: 按钮是否禁用（"true" / "false"）
+ *
+ * @param outTrackId - 卡片实例唯一标识，按钮回传和后续更新都通过它定位卡片
+ */
+export async function sendInteractiveCard(
+  to: string,
+  outTrackId: string,
+  card: InteractiveCardMessage,
+  options: SendMessageOptions
+): Promise<SendMessageResult> {
+  const templateId = options.account.interactiveCardTemplateId;
+  if (!templateId) {
+    throw new Error("未配置 interactiveCardTemplateId，无法发送互动卡片");
+  }
+
+  const isGroup = isGroupTarget(to);
+  logger.log(`[主动发送] 互动卡片 | ${isGroup ? "群聊" : "单聊"} | to: ${to} | title: ${card.title} | buttons: ${card.buttons.length}`);
+
+  const accessToken = await getAccessToken(options.account);
+
+  // outTrackId 唯一，只在限流（请求未被处理）时重试
+  await withRetry(
+    () => dingtalkApi(
+      options.account,
+      "/v1.0/card/instances/createAndDeliver",
+      {
+        cardTemplateId: templateId,
+        outTrackId,
+        cardData: {
+          cardParamMap: {
+            title: card.title,
+            markdown: card.markdown,
+            buttons: JSON.stringify(card.buttons),
+            status: "",
+            disabled: "false",
+          },
+        },
+        callbackType: "STREAM",
+        userIdType: 1,
+        ...buildCardDeliverModel(to, options.account, false),
+      },
+      accessToken
+    ),
+    { account: options.account, label: "投放卡片", retryOn: "throttle" }
+  );
+
+  logger.log(`[主动发送] 互动卡片发送成功 | outTrackId: ${outTrackId}`);
+  return {
+    messageId: outTrackId,
+    chatId: extractTargetId(to),
+  };
+}
+
 // ======================= 探测 Bot =======================
 
 export interface DingTalkProbeResult {
@@ -410,6 +2226,8 @@ export interface DingTalkProbeResult {
     name?: string;
     robotCode?: string;
   };
+  /** 当前缓存的 access_token 状态 */
+  token?: AccessTokenInfo;
   error?: string;
 }
 
@@ -429,6 +2247,7 @@ export async function probeDingTalkBot(
         robotCode: account.clientId,
         name: account.name,
       },
+      token: getAccessTokenInfo(account),
     };
   } catch (err) {
     return {
@@ -452,13 +2271,17 @@ export async function getFileDownloadUrl(
 ): Promise<string> {
   const accessToken = await getAccessToken(account);
 
-  const result = await dingtalkApi<{ downloadUrl?: string }>(
-    "/v1.0/robot/messageFiles/download",
-    {
-      downloadCode,
-      robotCode: account.clientId,
-    },
-    accessToken
+  const result = await withRetry(
+    () => dingtalkApi<{ downloadUrl?: string }>(
+      account,
+      "/v1.0/robot/messageFiles/download",
+      {
+        downloadCode,
+        robotCode: account.clientId,
+      },
+      accessToken
+    ),
+    { account, label: "获取下载链接" }
   );
 
   if (result.downloadUrl) {
@@ -471,17 +2294,52 @@ export async function getFileDownloadUrl(
 /**
  * 从 URL 下载文件
  * @param url - 下载链接
+ * @param headers - 请求头（钉盘下载地址需要带上签名请求头）
  * @returns 文件内容 Buffer
  */
-export async function downloadFromUrl(url: string): Promise<Buffer> {
-  const response = await fetch(url);
+export async function downloadFromUrl(url: string, headers: Record<string, string> = {}): Promise<Buffer> {
+  return withRetry(async () => {
+    const response = await dingtalkFetch({
+      kind: "download",
+      url,
+      method: "GET",
+      headers,
+    });
 
-  if (!response.ok) {
-    throw new Error(`下载文件失败: ${response.status} ${response.statusText}`);
-  }
+    if (!response.ok) {
+      throw new DingTalkApiError(`下载文件失败: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  }, { label: "下载文件" });
+}
+
+/**
+ * 按 mediaId 下载媒体文件（部分大文件附件只有 mediaId，没有下载码）
+ * @returns 文件内容 Buffer
+ */
+export async function downloadMediaById(mediaId: string, account: ResolvedDingTalkAccount): Promise<Buffer> {
+  const accessToken = await getAccessToken(account);
 
-  const arrayBuffer = await response.arrayBuffer();
-  return Buffer.from(arrayBuffer);
+  return withRetry(() => withTokenRefresh(account, accessToken, "下载媒体", async (token) => {
+    const response = await dingtalkFetch({
+      kind: "download",
+      url: `${account.oapiBaseUrl}/media/downloadFile?access_token=${token}&media_id=${encodeURIComponent(mediaId)}`,
+      method: "GET",
+      headers: {},
+    });
+
+    if (!response.ok) {
+      throw new DingTalkApiError(`下载媒体文件失败: ${response.status} ${response.statusText}`, response.status);
+    }
+    // 失败时返回 JSON 错误信息而不是文件内容
+    if (response.headers.get("content-type")?.includes("application/json")) {
+      const result = (await response.json()) as { errcode?: number; errmsg?: string };
+      throw new DingTalkApiError(`下载媒体文件失败: ${result.errmsg ?? JSON.stringify(result)}`, response.status, result.errcode);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }), { account, label: "下载媒体" });
 }
 
 // ======================= 媒体文件上传 =======================
@@ -495,10 +2353,11 @@ export async function downloadFromUrl(url: string): Promise<Buffer> {
  */
 export type DingTalkMediaType = "image" | "voice" | "video" | "file";
 
+/** media/upload 接口的文件大小上限（图片、视频、普通文件），超出时改走钉盘 */
+export const MEDIA_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+
 export interface UploadMediaResult {
   mediaId: string;
-  /** 图片类型返回公网可访问 URL，其他类型返回空字符串 */
-  url: string;
   /** 媒体类型 */
   type: DingTalkMediaType;
 }
@@ -573,35 +2432,299 @@ export async function uploadMedia(
   formData.append("media", blob, fileName);
   formData.append("type", type);
 
-  const response = await fetch(
-    `https://oapi.dingtalk.com/media/upload?access_token=${accessToken}`,
-    {
+  // 上传只生成新的 mediaId，重复上传没有副作用，可安全重试
+  const mediaId = await withRetry(() => withTokenRefresh(account, accessToken, "上传媒体", async (token) => {
+    const response = await dingtalkFetch({
+      kind: "oapi",
+      url: `${account.oapiBaseUrl}/media/upload?access_token=${token}`,
       method: "POST",
+      headers: {},
       body: formData,
+    });
+
+    if (!response.ok) {
+      throw new DingTalkApiError(`上传媒体文件失败: ${response.status} ${response.statusText}`, response.status);
     }
-  );
 
-  const result = (await response.json()) as {
-    errcode?: number;
-    errmsg?: string;
-    media_id?: string;
+    const result = (await response.json()) as {
+      errcode?: number;
+      errmsg?: string;
+      media_id?: string;
+    };
+
+    if (result.errcode === 0 && result.media_id) {
+      return result.media_id;
+    }
+
+    logger.error(`[上传媒体] 上传失败: ${result.errmsg ?? JSON.stringify(result)}`);
+    throw new DingTalkApiError(`上传媒体文件失败: ${result.errmsg ?? JSON.stringify(result)}`, response.status, result.errcode);
+  }), { account, label: "上传媒体" });
+
+  logger.log(`[上传媒体] 上传成功 | mediaId: ${mediaId}`);
+
+  return {
+    mediaId,
+    type,
   };
+}
 
-  if (result.errcode === 0 && result.media_id) {
-    logger.log(`[上传媒体] 上传成功 | mediaId: ${result.media_id}`);
+// ======================= 钉盘（大文件） =======================
 
-    // 只有图片类型才构造公网可访问的 URL
-    const url = type === "image"
-      ? `https://oapi.dingtalk.com/media/downloadFile?access_token=${accessToken}&media_id=${result.media_id}`
-      : "";
+/** 分片大小（最后一片可以更小） */
+const SPACE_UPLOAD_PART_BYTES = 8 * 1024 * 1024;
 
-    return {
-      mediaId: result.media_id,
+/** 每次获取上传地址的分片数（上传地址有有效期，分批获取） */
+const SPACE_UPLOAD_PART_BATCH = 10;
+
+/** 每次授权的最大成员数 */
+const SPACE_PERMISSION_BATCH_USERS = 30;
+
+/** 钉盘文件 */
+export interface SpaceFile {
+  spaceId: string;
+  /** 文件 ID（dentryId） */
+  fileId: string;
+  /** 文件 uuid（用于打开文件的链接） */
+  uuid?: string;
+  name: string;
+  size: number;
+}
+
+/** 分片上传地址 */
+interface HeaderSignatureInfo {
+  resourceUrls?: string[];
+  headers?: Record<string, string>;
+}
+
+/**
+ * 获取群会话的文件空间（群文件）
+ * 以 operatorUserId 的身份获取，该用户需要在群里
+ */
+export async function getConversationSpaceId(
+  openConversationId: string,
+  operatorUserId: string,
+  account: ResolvedDingTalkAccount
+): Promise<string> {
+  const accessToken = await getAccessToken(account);
+  const unionId = await getUnionId(operatorUserId, account);
+
+  const result = await withRetry(
+    () => dingtalkApi<{ space?: { spaceId?: string } }>(
+      account,
+      `/v1.0/convFile/conversations/spaces/query?unionId=${encodeURIComponent(unionId)}`,
+      { openConversationId },
+      accessToken
+    ),
+    { account, label: "获取群文件空间" }
+  );
+  if (!result.space?.spaceId) {
+    throw new Error(`获取群文件空间失败: 未返回空间 ID | openConversationId: ${openConversationId}`);
+  }
+  return result.space.spaceId;
+}
+
+/** 上传一个分片 */
+async function uploadSpacePart(info: HeaderSignatureInfo | undefined, part: Buffer, partNumber: number): Promise<void> {
+  const url = info?.resourceUrls?.[0];
+  if (!url) {
+    throw new Error(`获取分片上传地址失败 | partNumber: ${partNumber}`);
+  }
+  // 上传地址已签名，重复上传同一分片会覆盖，可安全重试
+  await withRetry(async () => {
+    const response = await dingtalkFetch({
+      kind: "upload",
       url,
-      type,
-    };
+      method: "PUT",
+      headers: info?.headers ?? {},
+      body: new Uint8Array(part),
+    });
+    if (!response.ok) {
+      throw new DingTalkApiError(`分片上传失败 [${response.status}] | partNumber: ${partNumber}`, response.status);
+    }
+  }, { label: "分片上传" });
+}
+
+/**
+ * 分片上传文件到钉盘空间
+ * 以 operatorUserId 的身份上传，同名文件自动重命名
+ * 需要应用开通企业存储中文件读写权限
+ */
+export async function uploadFileToSpace(
+  spaceId: string,
+  buffer: Buffer,
+  fileName: string,
+  operatorUserId: string,
+  account: ResolvedDingTalkAccount
+): Promise<SpaceFile> {
+  const accessToken = await getAccessToken(account);
+  const unionId = await getUnionId(operatorUserId, account);
+  const query = `unionId=${encodeURIComponent(unionId)}`;
+  const partCount = Math.max(1, Math.ceil(buffer.length / SPACE_UPLOAD_PART_BYTES));
+
+  logger.log(`[钉盘] 开始上传 | spaceId: ${spaceId} | fileName: ${fileName} | size: ${buffer.length} bytes | parts: ${partCount}`);
+
+  const { uploadKey } = await withRetry(
+    () => dingtalkApi<{ uploadKey?: string }>(
+      account,
+      `/v1.0/storage/spaces/${encodeURIComponent(spaceId)}/files/multiPartUploadInfos/init?${query}`,
+      { option: { preferIntranet: false } },
+      accessToken
+    ),
+    { account, label: "初始化分片上传" }
+  );
+  if (!uploadKey) {
+    throw new Error("初始化分片上传失败: 未返回 uploadKey");
+  }
+
+  for (let first = 1; first <= partCount; first += SPACE_UPLOAD_PART_BATCH) {
+    const partNumbers = Array.from(
+      { length: Math.min(SPACE_UPLOAD_PART_BATCH, partCount - first + 1) },
+      (_, index) => first + index
+    );
+    const { multipartHeaderSignatureInfos = [] } = await withRetry(
+      () => dingtalkApi<{
+        multipartHeaderSignatureInfos?: Array<{ partNumber?: number; headerSignatureInfo?: HeaderSignatureInfo }>;
+      }>(
+        account,
+        `/v1.0/storage/spaces/files/multiPartUploadInfos/query?${query}`,
+        { uploadKey, partNumbers, option: { preferIntranet: false } },
+        accessToken
+      ),
+      { account, label: "获取分片上传地址" }
+    );
+    const infoByPart = new Map(multipartHeaderSignatureInfos.map((item) => [item.partNumber, item.headerSignatureInfo]));
+
+    // 逐片上传，避免大文件同时占用多份内存
+    for (const partNumber of partNumbers) {
+      const offset = (partNumber - 1) * SPACE_UPLOAD_PART_BYTES;
+      await uploadSpacePart(infoByPart.get(partNumber), buffer.subarray(offset, offset + SPACE_UPLOAD_PART_BYTES), partNumber);
+    }
+  }
+
+  const { dentry } = await withRetry(
+    () => dingtalkApi<{ dentry?: { id?: string; uuid?: string; spaceId?: string; name?: string; size?: number } }>(
+      account,
+      `/v1.0/storage/spaces/${encodeURIComponent(spaceId)}/files/commit?${query}`,
+      {
+        uploadKey,
+        name: fileName,
+        parentId: "0",
+        option: { size: buffer.length, conflictStrategy: "AUTO_RENAME" },
+      },
+      accessToken
+    ),
+    { account, label: "提交文件" }
+  );
+  if (!dentry?.id) {
+    throw new Error("提交文件失败: 未返回文件 ID");
+  }
+
+  logger.log(`[钉盘] 上传成功 | spaceId: ${spaceId} | fileId: ${dentry.id} | name: ${dentry.name ?? fileName}`);
+  return {
+    spaceId: dentry.spaceId ?? spaceId,
+    fileId: dentry.id,
+    uuid: dentry.uuid,
+    name: dentry.name ?? fileName,
+    size: dentry.size ?? buffer.length,
+  };
+}
+
+/**
+ * 将钉盘文件发送到群会话（以 operatorUserId 的身份发送，群里显示为文件消息）
+ */
+export async function sendSpaceFileToConversation(
+  openConversationId: string,
+  file: Pick<SpaceFile, "spaceId" | "fileId" | "name">,
+  operatorUserId: string,
+  account: ResolvedDingTalkAccount
+): Promise<SendMessageResult> {
+  const accessToken = await getAccessToken(account);
+  const unionId = await getUnionId(operatorUserId, account);
+
+  await withRetry(
+    () => dingtalkApi(
+      account,
+      `/v1.0/convFile/conversations/files/send?unionId=${encodeURIComponent(unionId)}`,
+      { openConversationId, spaceId: file.spaceId, dentryId: file.fileId },
+      accessToken
+    ),
+    { account, label: "发送钉盘文件", retryOn: "throttle" }
+  );
+
+  logger.log(`[钉盘] 文件已发送到群 | openConversationId: ${openConversationId} | fileId: ${file.fileId} | name: ${file.name}`);
+  // 该接口不返回消息 ID，发送的文件无法通过撤回接口撤回
+  return { messageId: "", chatId: openConversationId };
+}
+
+/**
+ * 授予用户钉盘文件的查看和下载权限（以 operatorUserId 的身份授权，该用户需要能管理该文件）
+ * 无法获取 unionId 的用户跳过；授权接口失败时抛出错误
+ * @returns 已授权的用户 ID
+ */
+export async function grantSpaceFilePermission(
+  file: Pick<SpaceFile, "spaceId" | "fileId">,
+  userIds: string[],
+  operatorUserId: string,
+  account: ResolvedDingTalkAccount
+): Promise<string[]> {
+  const accessToken = await getAccessToken(account);
+  const operatorUnionId = await getUnionId(operatorUserId, account);
+
+  const members: Array<{ userId: string; unionId: string }> = [];
+  for (const userId of userIds) {
+    try {
+      members.push({ userId, unionId: await getUnionId(userId, account) });
+    } catch (err) {
+      logger.warn(`[钉盘] 获取接收人 unionId 失败，跳过授权 | userId: ${userId} | ${String(err)}`);
+    }
+  }
+
+  for (let i = 0; i < members.length; i += SPACE_PERMISSION_BATCH_USERS) {
+    const batch = members.slice(i, i + SPACE_PERMISSION_BATCH_USERS);
+    await withRetry(
+      () => dingtalkApi(
+        account,
+        `/v1.0/storage/spaces/${encodeURIComponent(file.spaceId)}/dentries/${encodeURIComponent(file.fileId)}/permissions?unionId=${encodeURIComponent(operatorUnionId)}`,
+        { roleId: "DOWNLOADER", members: batch.map((member) => ({ type: "USER", id: member.unionId })) },
+        accessToken
+      ),
+      { account, label: "授予钉盘文件权限" }
+    );
+  }
+
+  logger.log(`[钉盘] 已授予文件权限 | fileId: ${file.fileId} | ${members.length} 人`);
+  return members.map((member) => member.userId);
+}
+
+/**
+ * 下载钉盘文件（如从钉盘分享到会话的文件）
+ * 以 userId 的身份获取下载地址，该用户需要有文件的访问权限
+ * 需要应用开通企业存储中文件读权限
+ * @returns 文件内容 Buffer
+ */
+export async function downloadSpaceFile(
+  spaceId: string,
+  fileId: string,
+  userId: string,
+  account: ResolvedDingTalkAccount
+): Promise<Buffer> {
+  const accessToken = await getAccessToken(account);
+  const unionId = await getUnionId(userId, account);
+
+  const { headerSignatureInfo } = await withRetry(
+    () => dingtalkApi<{ headerSignatureInfo?: HeaderSignatureInfo }>(
+      account,
+      `/v1.0/storage/spaces/${encodeURIComponent(spaceId)}/dentries/${encodeURIComponent(fileId)}/downloadInfos/query?unionId=${encodeURIComponent(unionId)}`,
+      { option: { preferIntranet: false } },
+      accessToken
+    ),
+    { account, label: "获取钉盘下载地址" }
+  );
+  const url = headerSignatureInfo?.resourceUrls?.[0];
+  if (!url) {
+    throw new Error(`获取钉盘下载地址失败: 返回结果为空 | spaceId: ${spaceId} | fileId: ${fileId}`);
   }
 
-  logger.error(`[上传媒体] 上传失败: ${result.errmsg ?? JSON.stringify(result)}`);
-  throw new Error(`上传媒体文件失败: ${result.errmsg ?? JSON.stringify(result)}`);
+  logger.log(`[钉盘] 获取下载地址成功 | spaceId: ${spaceId} | fileId: ${fileId}`);
+  return downloadFromUrl(url, headerSignatureInfo?.headers);
 }
@@ -4,3 +4,33 @@
  * 同时也作为通道名，用于地址前缀（如 ddingtalk:user:xxx）
  */
 export const PLUGIN_ID = "ddingtalk" as const;
+
+/**
+ * 钉钉官方 AI 卡片模板 ID
+ * 支持 Markdown 内容流式输出（变量 msgContent）和 flowStatus 状态切换
+ */
+export const DEFAULT_AI_CARD_TEMPLATE_ID = "382e4302-551d-4880-bf29-a30acfab2e71.schema";
+
+/** 钉钉新版 API 默认地址 */
+export const DEFAULT_API_BASE_URL = "https://api.dingtalk.com";
+
+/** 钉钉旧版 oapi 默认地址 */
+export const DEFAULT_OAPI_BASE_URL = "https://oapi.dingtalk.com";
+
+/**
+ * 打开钉钉群聊的客户端链接模板（待办等回到原会话的链接）
+ * {openConversationId} 替换为群会话 ID
+ */
+export const DEFAULT_CHAT_LINK_TEMPLATE = "dingtalk://dingtalkclient/action/openconversation?openConversationId={openConversationId}";
+
+/** 钉钉待办截止时间的默认时区 */
+export const DEFAULT_TODO_TIME_ZONE = "Asia/Shanghai";
+
+/** 钉钉日程默认时区 */
+export const DEFAULT_CALENDAR_TIME_ZONE = "Asia/Shanghai";
+
+/**
+ * 打开钉盘文件的链接模板（非群聊目标发送大文件时使用）
+ * {uuid}、{spaceId}、{fileId} 替换为文件的对应字段
+ */
+export const DEFAULT_SPACE_FILE_LINK_TEMPLATE = "https://alidocs.dingtalk.com/i/nodes/{uuid}";
@@ -0,0 +1,93 @@
+import type { DingRemindType, ResolvedDingTalkAccount } from "./types.js";
+import { sendDingMessage, type SendDingResult } from "./client.js";
+import { recordChannelRuntimeState, getDingTalkRuntimeState, type DingState } from "./runtime-state.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/** 运行时状态中最多保留的 DING 记录条数（超出时淘汰最早的记录） */
+const MAX_DING_RECORDS = 50;
+
+/** 写入账号运行时状态 */
+function recordDing(accountId: string, key: string, ding: DingState): void {
+  const dings = { ...getDingTalkRuntimeState(accountId)?.dings, [key]: ding };
+  const keys = Object.keys(dings);
+  for (const staleKey of keys.slice(0, Math.max(0, keys.length - MAX_DING_RECORDS))) {
+    delete dings[staleKey];
+  }
+  recordChannelRuntimeState({
+    channel: PLUGIN_ID,
+    accountId,
+    state: { dings },
+  });
+}
+
+/** 白名单是否包含该用户（"*" 表示所有人） */
+function isListed(list: string[], userId: string): boolean {
+  const prefixPattern = new RegExp(`^${PLUGIN_ID}:(?:user:)?`, "i");
+  return list.some((entry) => entry === "*" || entry.replace(prefixPattern, "") === userId);
+}
+
+/** 是否可以向 Agent 提供 DING 操作（配置了可被 DING 的用户） */
+export function isDingEnabled(account: ResolvedDingTalkAccount): boolean {
+  return account.ding.recipients.length > 0;
+}
+
+/**
+ * 发送 DING 提醒
+ * 依次检查提醒方式、发起人和接收人是否在账号配置的白名单内，结果（含失败）写入运行时状态
+ * @param requesterId - 发起 DING 的用户（当前消息的发送者），定时任务等没有发送者时为 null，仅在 ding.allowWithoutRequester 开启时放行
+ */
+export async function sendDing(params: {
+  account: ResolvedDingTalkAccount;
+  userIds: string[];
+  content: string;
+  type: DingRemindType;
+  requesterId?: string | null;
+}): Promise<SendDingResult> {
+  const { account, userIds, content, type } = params;
+  const requesterId = params.requesterId ?? null;
+  const { recipients, requesters, allowWithoutRequester, types } = account.ding;
+
+  if (!isDingEnabled(account)) {
+    throw new Error(`DingTalk DING is disabled; list who may be DINGed in channels.${PLUGIN_ID}.ding.recipients.`);
+  }
+  if (!types.includes(type)) {
+    throw new Error(`DingTalk DING type "${type}" is not allowed; allowed types: ${types.join(", ")}.`);
+  }
+  if (!requesterId && !allowWithoutRequester) {
+    logger.warn("[DING] 没有发起人，已拒绝");
+    throw new Error(`DingTalk DING requires a requesting user; set channels.${PLUGIN_ID}.ding.allowWithoutRequester to allow calls without one (e.g. scheduled tasks).`);
+  }
+  if (requesterId && !isListed(requesters, requesterId)) {
+    logger.warn(`[DING] 发起人不在白名单 | requester: ${requesterId}`);
+    throw new Error(`DingTalk DING: ${requesterId} is not allowed to send DING (channels.${PLUGIN_ID}.ding.requesters).`);
+  }
+  const denied = userIds.filter((userId) => !isListed(recipients, userId));
+  if (denied.length > 0) {
+    logger.warn(`[DING] 接收人不在白名单 | ${denied.join(",")}`);
+    throw new Error(`DingTalk DING: ${denied.join(", ")} may not be DINGed (channels.${PLUGIN_ID}.ding.recipients).`);
+  }
+
+  try {
+    const result = await sendDingMessage(userIds, content, { account, type });
+    recordDing(account.accountId, result.openDingId, {
+      userIds,
+      type,
+      requesterId,
+      sentAt: Date.now(),
+      openDingId: result.openDingId,
+      error: null,
+    });
+    return result;
+  } catch (err) {
+    recordDing(account.accountId, `failed-${Date.now()}`, {
+      userIds,
+      type,
+      requesterId,
+      sentAt: Date.now(),
+      openDingId: null,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+}
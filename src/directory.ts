@@ -0,0 +1,259 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import {
+  getUserIdByMobile,
+  searchUserIdsByName,
+  getUserDetail,
+  listDepartmentUsers,
+  type DirectoryUser,
+} from "./client.js";
+import { findGroupMember } from "./mentions.js";
+import { logger } from "./logger.js";
+
+/**
+ * 通讯录查找
+ *
+ * 发送目标和 allowFrom 中可以用手机号、邮箱或姓名代替用户 ID：
+ * - mobile:<手机号>：按手机号精确查询
+ * - email:<邮箱>：在通讯录中匹配邮箱或企业邮箱
+ * - name:<姓名>：按姓名精确搜索，同名时视为有歧义
+ *
+ * 查询结果按账号缓存，发送时和 resolveTarget（同步）都可以直接使用缓存。
+ */
+
+export type DirectoryQueryKind = "mobile" | "email" | "name";
+
+export interface DirectoryQuery {
+  kind: DirectoryQueryKind;
+  value: string;
+}
+
+export type DirectoryLookupResult =
+  | { status: "resolved"; userId: string; user?: DirectoryUser }
+  | { status: "ambiguous"; candidates: DirectoryUser[] }
+  | { status: "not_found" };
+
+/** 查询结果缓存时长 */
+const LOOKUP_TTL_MS = 60 * 60 * 1000;
+
+/** 未找到的结果缓存时长（新入职成员可以较快被查到） */
+const NOT_FOUND_TTL_MS = 5 * 60 * 1000;
+
+/** 通讯录快照缓存时长（按邮箱查找时使用） */
+const SNAPSHOT_TTL_MS = 60 * 60 * 1000;
+
+/** 根部门 ID */
+const ROOT_DEPT_ID = "1";
+
+/** 歧义提示中最多列出的候选人数 */
+const MAX_LISTED_CANDIDATES = 5;
+
+const QUERY_PATTERN = /^(mobile|email|name):(.+)$/i;
+
+/** `${accountId}|${kind}:${value}` -> 查询结果 */
+const lookupCache = new Map<string, { result: DirectoryLookupResult; expiresAt: number }>();
+
+/** 进行中的查询（同一查询只发起一次请求） */
+const pendingLookups = new Map<string, Promise<DirectoryLookupResult>>();
+
+/** accountId -> 通讯录快照 */
+const snapshots = new Map<string, { users: Promise<DirectoryUser[]>; expiresAt: number }>();
+
+/**
+ * 解析通讯录查询（mobile: / email: / name:，可带 ddingtalk: 等渠道前缀）
+ * @returns 不是通讯录查询时返回 null
+ */
+export function parseDirectoryQuery(raw: string): DirectoryQuery | null {
+  const stripped = raw.trim().replace(/^(ddingtalk|dingtalk|dingding):/i, "");
+  const match = QUERY_PATTERN.exec(stripped);
+  if (!match) return null;
+
+  const kind = match[1].toLowerCase() as DirectoryQueryKind;
+  const value = match[2].trim();
+  if (kind === "mobile") {
+    const mobile = value.replace(/[\s-]/g, "").replace(/^\+86/, "");
+    return /^\d{6,15}$/.test(mobile) ? { kind, value: mobile } : null;
+  }
+  if (kind === "email") {
+    return /^[^\s@]+@[^\s@]+$/.test(value) ? { kind, value: value.toLowerCase() } : null;
+  }
+  return value ? { kind, value } : null;
+}
+
+/** 查询的标准写法 */
+export function formatDirectoryQuery(query: DirectoryQuery): string {
+  return `${query.kind}:${query.value}`;
+}
+
+function cacheKey(accountId: string, query: DirectoryQuery): string {
+  return `${accountId}|${formatDirectoryQuery(query)}`;
+}
+
+/** 读取缓存的查询结果（不发起请求，供同步流程使用） */
+export function peekDirectoryLookup(accountId: string, query: DirectoryQuery): DirectoryLookupResult | undefined {
+  const key = cacheKey(accountId, query);
+  const cached = lookupCache.get(key);
+  if (!cached) return undefined;
+  if (cached.expiresAt <= Date.now()) {
+    lookupCache.delete(key);
+    return undefined;
+  }
+  return cached.result;
+}
+
+/** 通讯录快照（全员详情，按 SNAPSHOT_TTL_MS 缓存） */
+function getDirectorySnapshot(account: ResolvedDingTalkAccount): Promise<DirectoryUser[]> {
+  const cached = snapshots.get(account.accountId);
+  if (cached && cached.expiresAt > Date.now()) return cached.users;
+
+  const users = listDepartmentUsers(ROOT_DEPT_ID, account);
+  snapshots.set(account.accountId, { users, expiresAt: Date.now() + SNAPSHOT_TTL_MS });
+  users.catch(() => snapshots.delete(account.accountId));
+  return users;
+}
+
+/** 根据候选用户 ID 生成结果（多个候选时获取详情用于歧义提示） */
+async function resultFromIds(userIds: string[], account: ResolvedDingTalkAccount): Promise<DirectoryLookupResult> {
+  const unique = [...new Set(userIds)];
+  if (unique.length === 0) return { status: "not_found" };
+  if (unique.length === 1) return { status: "resolved", userId: unique[0] };
+
+  const candidates = await Promise.all(
+    unique.slice(0, MAX_LISTED_CANDIDATES).map((userId) =>
+      getUserDetail(userId, account).catch((): DirectoryUser => ({ userId, name: "" }))
+    )
+  );
+  return { status: "ambiguous", candidates };
+}
+
+async function runLookup(account: ResolvedDingTalkAccount, query: DirectoryQuery): Promise<DirectoryLookupResult> {
+  switch (query.kind) {
+    case "mobile": {
+      const userId = await getUserIdByMobile(query.value, account);
+      return userId ? { status: "resolved", userId } : { status: "not_found" };
+    }
+    case "name":
+      return resultFromIds(await searchUserIdsByName(query.value, account), account);
+    case "email": {
+      const users = (await getDirectorySnapshot(account)).filter(
+        (user) => user.email?.toLowerCase() === query.value || user.orgEmail?.toLowerCase() === query.value
+      );
+      if (users.length === 1) return { status: "resolved", userId: users[0].userId, user: users[0] };
+      return users.length === 0 ? { status: "not_found" } : { status: "ambiguous", candidates: users.slice(0, MAX_LISTED_CANDIDATES) };
+    }
+  }
+}
+
+/**
+ * 在通讯录中查找用户（结果缓存，同一查询并发时只请求一次）
+ * 接口调用失败（如缺少通讯录权限）时抛出错误，不缓存
+ */
+export function lookupDirectoryUser(
+  account: ResolvedDingTalkAccount,
+  query: DirectoryQuery
+): Promise<DirectoryLookupResult> {
+  const cached = peekDirectoryLookup(account.accountId, query);
+  if (cached) return Promise.resolve(cached);
+
+  const key = cacheKey(account.accountId, query);
+  const pending = pendingLookups.get(key);
+  if (pending) return pending;
+
+  const promise = runLookup(account, query)
+    .then((result) => {
+      const ttl = result.status === "not_found" ? NOT_FOUND_TTL_MS : LOOKUP_TTL_MS;
+      lookupCache.set(key, { result, expiresAt: Date.now() + ttl });
+      logger.log(`[通讯录] 查找 ${formatDirectoryQuery(query)} | ${result.status}${result.status === "resolved" ? ` | userId: ${result.userId}` : ""}`);
+      return result;
+    })
+    .finally(() => pendingLookups.delete(key));
+  pendingLookups.set(key, promise);
+  return promise;
+}
+
+/** 候选用户的描述（姓名、职位、用户 ID） */
+function describeCandidate(user: DirectoryUser): string {
+  const details = [user.title, user.userId].filter(Boolean).join(", ");
+  return user.name ? `${user.name} (${details})` : user.userId;
+}
+
+/** 查找失败（未找到或有歧义）的说明 */
+export function describeLookupFailure(query: DirectoryQuery, result: DirectoryLookupResult): string {
+  if (result.status === "ambiguous") {
+    return `${formatDirectoryQuery(query)} 匹配到多个用户：${result.candidates.map(describeCandidate).join("；")}，请改用用户 ID`;
+  }
+  return `${formatDirectoryQuery(query)} 在通讯录中未找到`;
+}
+
+/**
+ * 将通讯录查询解析为用户 ID
+ * 未找到或有歧义时抛出错误（错误信息中列出候选人）
+ */
+export async function resolveDirectoryUserId(
+  account: ResolvedDingTalkAccount,
+  query: DirectoryQuery
+): Promise<string> {
+  const result = await lookupDirectoryUser(account, query);
+  if (result.status === "resolved") return result.userId;
+  throw new Error(describeLookupFailure(query, result));
+}
+
+/**
+ * 发送前解析目标：通讯录查询转换为用户 ID，其他目标原样返回
+ * 未找到或有歧义时抛出错误
+ */
+export async function resolveDirectoryTarget(to: string, account: ResolvedDingTalkAccount): Promise<string> {
+  const query = parseDirectoryQuery(to);
+  return query ? resolveDirectoryUserId(account, query) : to;
+}
+
+/**
+ * 将操作参数中的人员解析为用户 ID（待办执行人、日程参与人等）
+ * 依次尝试：当前群的成员（userId 或名字）、通讯录查询、userId、按姓名搜索通讯录
+ * 有歧义或找不到时抛出错误（错误中列出候选人）
+ */
+export async function resolvePersonId(
+  raw: string,
+  account: ResolvedDingTalkAccount,
+  groupId?: string
+): Promise<string> {
+  const value = raw.trim().replace(/^@/, "").replace(/^user:/i, "");
+  const member = groupId ? findGroupMember(account.accountId, groupId, value) : undefined;
+  if (member) return member;
+
+  const query = parseDirectoryQuery(value);
+  if (query) return resolveDirectoryUserId(account, query);
+  if (/^[a-zA-Z0-9_$+-]+$/.test(value)) return value;
+  return resolveDirectoryUserId(account, { kind: "name", value });
+}
+
+export interface DirectoryEntryResolution {
+  input: string;
+  resolved: boolean;
+  /** 解析出的用户 ID（未找到或有歧义时为 null） */
+  id: string | null;
+  /** 未解析的原因（含歧义候选人） */
+  note?: string;
+}
+
+/**
+ * 批量解析 allowFrom / 目标列表中的通讯录查询
+ * 不是通讯录查询的条目原样视为已解析；接口调用失败时记录原因，不中断其他条目
+ */
+export async function resolveDirectoryEntries(
+  account: ResolvedDingTalkAccount,
+  entries: string[]
+): Promise<DirectoryEntryResolution[]> {
+  return Promise.all(
+    entries.map(async (input): Promise<DirectoryEntryResolution> => {
+      const query = parseDirectoryQuery(input);
+      if (!query) return { input, resolved: true, id: input };
+      try {
+        const result = await lookupDirectoryUser(account, query);
+        if (result.status === "resolved") return { input, resolved: true, id: result.userId };
+        return { input, resolved: false, id: null, note: describeLookupFailure(query, result) };
+      } catch (err) {
+        return { input, resolved: false, id: null, note: `${formatDirectoryQuery(query)} 查找失败: ${String(err)}` };
+      }
+    })
+  );
+}
@@ -10,6 +10,8 @@ const execFileAsync = promisify(execFile);
 
 const FFPROBE_TIMEOUT_MS = 10_000;
 const FFMPEG_TIMEOUT_MS = 30_000;
+/** 转码耗时较长（尤其是视频），单独放宽超时 */
+const TRANSCODE_TIMEOUT_MS = 5 * 60_000;
 const MAX_BUFFER_BYTES = 10 * 1024 * 1024;
 
 // ======================= ffmpeg 检测 =======================
@@ -74,9 +76,10 @@ async function runFfprobe(args: string[]): Promise<string> {
   return stdout.toString();
 }
 
-async function runFfmpeg(args: string[]): Promise<string> {
-  const { stdout } = await execFileAsync("ffmpeg", args, {
-    timeout: FFMPEG_TIMEOUT_MS,
+/** 只输出错误、不输出进度，避免长时间转码时 stderr 超过 maxBuffer */
+async function runFfmpeg(args: string[], timeout = FFMPEG_TIMEOUT_MS): Promise<string> {
+  const { stdout } = await execFileAsync("ffmpeg", ["-loglevel", "error", "-nostats", ...args], {
+    timeout,
     maxBuffer: MAX_BUFFER_BYTES,
   });
   return stdout.toString();
@@ -204,3 +207,265 @@ export async function probeMediaBuffer(
     } catch { /* ignore */ }
   }
 }
+
+// ======================= 转码 =======================
+
+/** 钉钉语音消息大小上限 */
+export const VOICE_MAX_BYTES = 2 * 1024 * 1024;
+/** 钉钉视频消息大小上限 */
+export const VIDEO_MAX_BYTES = 20 * 1024 * 1024;
+
+/** 钉钉语音消息支持的容器格式（ffprobe format_name） */
+const VOICE_FORMATS = new Set(["amr", "mp3", "wav"]);
+
+/** 语音转码可选码率（kbps），从高到低尝试，直到文件大小满足上限 */
+const VOICE_BITRATES_KBPS = [64, 48, 32, 24, 16, 8];
+
+/** 视频转码的音频码率（kbps） */
+const VIDEO_AUDIO_BITRATE_KBPS = 64;
+/** 视频码率低于该值（kbps）时画面已无法辨认，视为无法压缩到上限内 */
+const VIDEO_MIN_BITRATE_KBPS = 100;
+
+/** 目标大小的安全余量（容器开销、码率波动） */
+const SIZE_SAFETY_RATIO = 0.9;
+
+interface MediaStreamInfo {
+  /** 容器格式，如 "mp3"、"mov,mp4,m4a,3gp,3g2,mj2" */
+  format: string;
+  videoCodec?: string;
+  audioCodec?: string;
+  /** 时长（秒） */
+  duration: number;
+}
+
+/**
+ * 获取容器格式、音视频编码和时长
+ */
+async function getMediaStreamInfo(filePath: string): Promise<MediaStreamInfo> {
+  const stdout = await runFfprobe([
+    "-v", "error",
+    "-show_entries", "stream=codec_type,codec_name:format=format_name,duration",
+    "-of", "json",
+    filePath,
+  ]);
+  const parsed = JSON.parse(stdout) as {
+    streams?: Array<{ codec_type?: string; codec_name?: string }>;
+    format?: { format_name?: string; duration?: string };
+  };
+  const duration = parseFloat(parsed.format?.duration ?? "");
+  if (isNaN(duration) || duration <= 0) {
+    throw new Error(`无法解析时长: ${parsed.format?.duration}`);
+  }
+  return {
+    format: parsed.format?.format_name ?? "",
+    videoCodec: parsed.streams?.find((stream) => stream.codec_type === "video")?.codec_name,
+    audioCodec: parsed.streams?.find((stream) => stream.codec_type === "audio")?.codec_name,
+    duration,
+  };
+}
+
+export interface TranscodedMedia {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  /** 是否经过转码（false 表示原文件已符合要求） */
+  transcoded: boolean;
+}
+
+/** 替换文件扩展名 */
+function withExtension(fileName: string, ext: string): string {
+  const base = path.basename(fileName, path.extname(fileName)) || "media";
+  return `${base}${ext}`;
+}
+
+/**
+ * 语音转为 mp3（单声道 16kHz），从高到低尝试码率直到小于 2MB
+ */
+async function transcodeVoice(inputPath: string, info: MediaStreamInfo, outputPath: string): Promise<Buffer | null> {
+  // 按时长估算满足大小上限的最高码率，跳过明显超限的档位
+  const maxKbps = (VOICE_MAX_BYTES * 8 * SIZE_SAFETY_RATIO) / info.duration / 1000;
+  for (const kbps of VOICE_BITRATES_KBPS.filter((rate) => rate <= maxKbps)) {
+    await runFfmpeg([
+      "-y",
+      "-i", inputPath,
+      "-vn",
+      "-ac", "1",
+      "-ar", "16000",
+      "-c:a", "libmp3lame",
+      "-b:a", `${kbps}k`,
+      outputPath,
+    ], TRANSCODE_TIMEOUT_MS);
+    const output = fs.readFileSync(outputPath);
+    if (output.length <= VOICE_MAX_BYTES) {
+      logger.log(`[ffmpeg] 语音转码完成 | ${kbps}kbps | ${(output.length / 1024).toFixed(1)} KB`);
+      return output;
+    }
+  }
+  return null;
+}
+
+/**
+ * 视频转为 H.264/AAC mp4，按时长计算目标码率使文件小于 20MB
+ * 码率较低时同时降低分辨率，首次输出仍超限时降低码率重试一次
+ */
+async function transcodeVideo(inputPath: string, info: MediaStreamInfo, outputPath: string): Promise<Buffer | null> {
+  const audioKbps = info.audioCodec ? VIDEO_AUDIO_BITRATE_KBPS : 0;
+  let videoKbps = Math.floor((VIDEO_MAX_BYTES * 8 * SIZE_SAFETY_RATIO) / info.duration / 1000) - audioKbps;
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    if (videoKbps < VIDEO_MIN_BITRATE_KBPS) return null;
+    // 码率不足以支撑高分辨率时降低分辨率，保证画质可看
+    const maxHeight = videoKbps < 500 ? 480 : videoKbps < 1500 ? 720 : 1080;
+    await runFfmpeg([
+      "-y",
+      "-i", inputPath,
+      "-vf", `scale=-2:'min(${maxHeight},ih)'`,
+      "-c:v", "libx264",
+      "-preset", "veryfast",
+      "-pix_fmt", "yuv420p",
+      "-b:v", `${videoKbps}k`,
+      "-maxrate", `${videoKbps}k`,
+      "-bufsize", `${videoKbps * 2}k`,
+      ...(audioKbps ? ["-c:a", "aac", "-b:a", `${audioKbps}k`] : ["-an"]),
+      "-movflags", "+faststart",
+      outputPath,
+    ], TRANSCODE_TIMEOUT_MS);
+    const output = fs.readFileSync(outputPath);
+    if (output.length <= VIDEO_MAX_BYTES) {
+      logger.log(`[ffmpeg] 视频转码完成 | ${videoKbps}kbps | ≤${maxHeight}p | ${(output.length / 1024 / 1024).toFixed(2)} MB`);
+      return output;
+    }
+    videoKbps = Math.floor(videoKbps * 0.8);
+  }
+  return null;
+}
+
+/**
+ * 将语音/视频转为钉钉支持的格式和大小
+ *
+ * - 语音：amr/mp3/wav 且小于 2MB 时原样返回，否则转为 mp3 并按需降低码率
+ * - 视频：H.264/AAC 的 mp4 且小于 20MB 时原样返回，否则重新编码为 H.264/AAC mp4
+ *
+ * @returns 转码结果；降低码率后仍无法满足大小上限时返回 null（调用方降级为文件发送）
+ */
+export async function transcodeForDingTalk(
+  buffer: Buffer,
+  fileName: string,
+  type: "voice" | "video"
+): Promise<TranscodedMedia | null> {
+  const tmpDir = os.tmpdir();
+  const id = crypto.randomUUID();
+  const inputPath = path.join(tmpDir, `dingtalk-transcode-${id}${path.extname(fileName) || (type === "video" ? ".mp4" : ".mp3")}`);
+  const outputPath = path.join(tmpDir, `dingtalk-transcode-${id}-out${type === "video" ? ".mp4" : ".mp3"}`);
+
+  fs.writeFileSync(inputPath, buffer);
+
+  try {
+    const info = await getMediaStreamInfo(inputPath);
+
+    if (type === "voice") {
+      const formats = info.format.split(",");
+      if (formats.some((format) => VOICE_FORMATS.has(format)) && buffer.length <= VOICE_MAX_BYTES) {
+        return { buffer, fileName, mimeType: formats.includes("mp3") ? "audio/mpeg" : `audio/${formats[0]}`, transcoded: false };
+      }
+      logger.log(`[ffmpeg] 语音需要转码 | format: ${info.format} | codec: ${info.audioCodec} | size: ${(buffer.length / 1024).toFixed(1)} KB`);
+      const output = await transcodeVoice(inputPath, info, outputPath);
+      return output ? { buffer: output, fileName: withExtension(fileName, ".mp3"), mimeType: "audio/mpeg", transcoded: true } : null;
+    }
+
+    const isMp4 = info.format.split(",").includes("mp4") && path.extname(fileName).toLowerCase() !== ".mov";
+    const compatible = isMp4 && info.videoCodec === "h264" && (!info.audioCodec || info.audioCodec === "aac");
+    if (compatible && buffer.length <= VIDEO_MAX_BYTES) {
+      return { buffer, fileName, mimeType: "video/mp4", transcoded: false };
+    }
+    logger.log(`[ffmpeg] 视频需要转码 | format: ${info.format} | codec: ${info.videoCodec}/${info.audioCodec} | size: ${(buffer.length / 1024 / 1024).toFixed(2)} MB`);
+    const output = await transcodeVideo(inputPath, info, outputPath);
+    return output ? { buffer: output, fileName: withExtension(fileName, ".mp4"), mimeType: "video/mp4", transcoded: true } : null;
+  } finally {
+    for (const tmpPath of [inputPath, outputPath]) {
+      try {
+        fs.unlinkSync(tmpPath);
+      } catch { /* ignore */ }
+    }
+  }
+}
+
+// ======================= 图片转换 =======================
+
+export interface ImageProbeResult {
+  width: number;
+  height: number;
+  /** 是否带透明通道 */
+  hasAlpha: boolean;
+}
+
+/** 带透明通道的像素格式 */
+const ALPHA_PIX_FMT_PATTERN = /^(rgba|bgra|argb|abgr|ya|yuva|gbrap|pal8)/;
+
+/**
+ * 探测图片的尺寸和透明通道
+ */
+export async function probeImageBuffer(buffer: Buffer, fileName: string): Promise<ImageProbeResult> {
+  const tmpPath = path.join(os.tmpdir(), `dingtalk-image-${crypto.randomUUID()}${path.extname(fileName)}`);
+  fs.writeFileSync(tmpPath, buffer);
+
+  try {
+    const stdout = await runFfprobe([
+      "-v", "error",
+      "-select_streams", "v:0",
+      "-show_entries", "stream=width,height,pix_fmt",
+      "-of", "json",
+      tmpPath,
+    ]);
+    const stream = (JSON.parse(stdout) as { streams?: Array<{ width?: number; height?: number; pix_fmt?: string }> }).streams?.[0];
+    if (!stream?.width || !stream.height) {
+      throw new Error(`无法解析图片尺寸: ${stdout.trim()}`);
+    }
+    return {
+      width: stream.width,
+      height: stream.height,
+      hasAlpha: ALPHA_PIX_FMT_PATTERN.test(stream.pix_fmt ?? ""),
+    };
+  } finally {
+    try {
+      fs.unlinkSync(tmpPath);
+    } catch { /* ignore */ }
+  }
+}
+
+/**
+ * 转换图片格式并按最大边长等比缩小（不放大），输出不带任何元数据（含 EXIF 位置信息）
+ * @param options.quality - JPEG 质量（1-100），PNG 忽略
+ */
+export async function convertImageBuffer(
+  buffer: Buffer,
+  fileName: string,
+  options: { format: "jpg" | "png"; maxSide: number; quality?: number }
+): Promise<Buffer> {
+  const id = crypto.randomUUID();
+  const inputPath = path.join(os.tmpdir(), `dingtalk-image-${id}${path.extname(fileName)}`);
+  const outputPath = path.join(os.tmpdir(), `dingtalk-image-${id}-out.${options.format}`);
+  fs.writeFileSync(inputPath, buffer);
+
+  // ffmpeg 的 JPEG 质量参数为 2（最好）~ 31（最差）
+  const qscale = Math.round(31 - ((options.quality ?? 85) / 100) * 29);
+
+  try {
+    await runFfmpeg([
+      "-y",
+      "-i", inputPath,
+      "-map_metadata", "-1",
+      "-vf", `scale='min(iw,${options.maxSide})':'min(ih,${options.maxSide})':force_original_aspect_ratio=decrease`,
+      "-frames:v", "1",
+      ...(options.format === "jpg" ? ["-q:v", String(qscale)] : ["-compression_level", "9"]),
+      outputPath,
+    ]);
+    return fs.readFileSync(outputPath);
+  } finally {
+    for (const tmpPath of [inputPath, outputPath]) {
+      try {
+        fs.unlinkSync(tmpPath);
+      } catch { /* ignore */ }
+    }
+  }
+}
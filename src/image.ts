@@ -0,0 +1,275 @@
+import path from "path";
+import { convertHeicToJpeg, hasAlphaChannel, resizeToJpeg, resizeToPng } from "openclaw/plugin-sdk/media-runtime";
+import type { ResolvedDingTalkAccount } from "./types.js";
+import { sendImageMessage, sendTextMessage, type SendMessageResult, type UploadMediaResult } from "./client.js";
+import { hasFFmpeg, probeImageBuffer, convertImageBuffer } from "./ffmpeg.js";
+import { publishProxyMedia } from "./media-proxy.js";
+import { logger } from "./logger.js";
+
+/** 钉钉图片消息支持的格式 */
+const SUPPORTED_IMAGE_MIME_TYPES = new Set(["image/jpeg", "image/jpg", "image/png", "image/gif", "image/bmp"]);
+
+/** 压缩时依次尝试的 JPEG 质量 */
+const JPEG_QUALITY_STEPS = [85, 65, 45];
+
+/** 压缩时依次尝试的最大边长（超过配置的 maxSide 的档位会被跳过） */
+const SIDE_STEPS = [4096, 2048, 1600, 1280, 1024, 800];
+
+/** EXIF 数据类型 -> 单个值的字节数 */
+const EXIF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+/** EXIF 中指向 GPS 信息的标签 */
+const EXIF_GPS_IFD_TAG = 0x8825;
+
+export type ImageOptions = ResolvedDingTalkAccount["images"];
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  /** 是否经过处理（格式转换、压缩或去除位置信息） */
+  changed: boolean;
+}
+
+// ======================= EXIF 位置信息 =======================
+
+/**
+ * 清空 TIFF 结构中的 GPS IFD（条目和条目指向的数据全部置零，条目数置为 0）
+ * 其余 EXIF 信息（如方向）保持不变
+ * @returns 是否找到并清除了 GPS 信息
+ */
+function clearGpsIfd(buf: Buffer, tiffStart: number, end: number): boolean {
+  const byteOrder = buf.toString("latin1", tiffStart, tiffStart + 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return false;
+  const le = byteOrder === "II";
+  const u16 = (offset: number) => (le ? buf.readUInt16LE(offset) : buf.readUInt16BE(offset));
+  const u32 = (offset: number) => (le ? buf.readUInt32LE(offset) : buf.readUInt32BE(offset));
+
+  const ifd0 = tiffStart + u32(tiffStart + 4);
+  if (ifd0 + 2 > end) return false;
+
+  for (let i = 0; i < u16(ifd0); i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > end) return false;
+    if (u16(entry) !== EXIF_GPS_IFD_TAG) continue;
+
+    const gpsIfd = tiffStart + u32(entry + 8);
+    if (gpsIfd + 2 > end) return false;
+    const gpsCount = u16(gpsIfd);
+    for (let j = 0; j < gpsCount; j++) {
+      const gpsEntry = gpsIfd + 2 + j * 12;
+      if (gpsEntry + 12 > end) break;
+      const size = (EXIF_TYPE_SIZES[u16(gpsEntry + 2)] ?? 1) * u32(gpsEntry + 4);
+      // 超过 4 字节的值存放在条目外，需要单独清除
+      if (size > 4) {
+        const dataStart = tiffStart + u32(gpsEntry + 8);
+        if (dataStart + size <= end) buf.fill(0, dataStart, dataStart + size);
+      }
+    }
+    // 清空条目和下一个 IFD 的指针，条目数置 0
+    buf.fill(0, gpsIfd, Math.min(end, gpsIfd + 2 + gpsCount * 12 + 4));
+    return gpsCount > 0;
+  }
+  return false;
+}
+
+/** 清除 JPEG 的 APP1 Exif 段中的 GPS 信息（原地修改副本，不重新编码） */
+function stripJpegLocation(buffer: Buffer): Buffer {
+  if (buffer.length < 4 || buffer.readUInt16BE(0) !== 0xffd8) return buffer;
+
+  let result: Buffer | null = null;
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // SOS 之后是图像数据，不再有元数据段
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && buffer.toString("latin1", offset + 4, offset + 10) === "Exif\0\0") {
+      const copy: Buffer = result ?? Buffer.from(buffer);
+      if (clearGpsIfd(copy, offset + 10, Math.min(copy.length, offset + 2 + length))) {
+        result = copy;
+      }
+    }
+    offset += 2 + length;
+  }
+  return result ?? buffer;
+}
+
+/** 移除 PNG 的 eXIf 块 */
+function stripPngLocation(buffer: Buffer): Buffer {
+  const chunks: Buffer[] = [buffer.subarray(0, 8)];
+  let removed = false;
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const chunkEnd = offset + 12 + length;
+    if (type === "eXIf") {
+      removed = true;
+    } else {
+      chunks.push(buffer.subarray(offset, chunkEnd));
+    }
+    offset = chunkEnd;
+  }
+  return removed ? Buffer.concat(chunks) : buffer;
+}
+
+/**
+ * 去除图片中的 EXIF 位置信息（JPEG / PNG），不重新编码图片
+ */
+export function stripImageLocation(buffer: Buffer, mimeType: string): Buffer {
+  try {
+    if (mimeType === "image/jpeg" || mimeType === "image/jpg") return stripJpegLocation(buffer);
+    if (mimeType === "image/png") return stripPngLocation(buffer);
+  } catch (err) {
+    logger.warn(`[图片] 解析 EXIF 失败，保留原图: ${String(err)}`);
+  }
+  return buffer;
+}
+
+// ======================= 格式转换与压缩 =======================
+
+interface ImageEncoder {
+  name: string;
+  hasAlpha: (buffer: Buffer, fileName: string) => Promise<boolean>;
+  encode: (buffer: Buffer, fileName: string, format: "jpg" | "png", maxSide: number, quality: number) => Promise<Buffer>;
+}
+
+/** ffmpeg 编码器 */
+const ffmpegEncoder: ImageEncoder = {
+  name: "ffmpeg",
+  hasAlpha: async (buffer, fileName) => (await probeImageBuffer(buffer, fileName)).hasAlpha,
+  encode: (buffer, fileName, format, maxSide, quality) => convertImageBuffer(buffer, fileName, { format, maxSide, quality }),
+};
+
+/** OpenClaw 内置的图片处理（sharp / sips），输出不带元数据 */
+const runtimeEncoder: ImageEncoder = {
+  name: "openclaw",
+  hasAlpha: (buffer) => hasAlphaChannel(buffer),
+  encode: async (buffer, fileName, format, maxSide, quality) => {
+    const input = /\.hei[cf]$/i.test(fileName) ? await convertHeicToJpeg(buffer) : buffer;
+    return format === "jpg"
+      ? resizeToJpeg({ buffer: input, maxSide, quality, withoutEnlargement: true })
+      : resizeToPng({ buffer: input, maxSide, compressionLevel: 9, withoutEnlargement: true });
+  },
+};
+
+/**
+ * 重新编码为 JPEG（带透明通道时为 PNG），按边长和质量逐级压缩直到满足大小上限
+ */
+async function reencodeImage(
+  buffer: Buffer,
+  fileName: string,
+  options: ImageOptions,
+  encoder: ImageEncoder
+): Promise<{ buffer: Buffer; format: "jpg" | "png" } | null> {
+  const format = (await encoder.hasAlpha(buffer, fileName)) ? "png" : "jpg";
+  const sides = [...new Set([options.maxSide, ...SIDE_STEPS.filter((side) => side < options.maxSide)])];
+  const qualities = format === "jpg" ? JPEG_QUALITY_STEPS : [100];
+
+  for (const side of sides) {
+    for (const quality of qualities) {
+      const output = await encoder.encode(buffer, fileName, format, side, quality);
+      if (output.length <= options.maxBytes) {
+        logger.log(`[图片] 重新编码完成 | ${encoder.name} | ${format} | ≤${side}px | q${quality} | ${(output.length / 1024).toFixed(1)} KB`);
+        return { buffer: output, format };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 将图片处理为钉钉图片消息可以接受的格式
+ *
+ * - jpg/png/gif/bmp 且未超过大小上限：只去除 EXIF 位置信息
+ * - 其他格式（webp、svg、heic 等）或超过大小上限：转为 JPEG（带透明通道时为 PNG），并逐级缩小、降低质量
+ * - 优先使用 ffmpeg，不可用或无法解码时使用 OpenClaw 内置的图片处理
+ *
+ * @returns 处理结果；无法转换或无法压缩到上限内时返回 null（调用方降级为文件发送）
+ */
+export async function normalizeImage(
+  buffer: Buffer,
+  fileName: string,
+  mimeType: string,
+  options: ImageOptions
+): Promise<NormalizedImage | null> {
+  if (SUPPORTED_IMAGE_MIME_TYPES.has(mimeType) && buffer.length <= options.maxBytes) {
+    const stripped = options.stripLocation ? stripImageLocation(buffer, mimeType) : buffer;
+    if (stripped !== buffer) {
+      logger.log(`[图片] 已去除 EXIF 位置信息 | ${fileName}`);
+    }
+    return { buffer: stripped, fileName, mimeType, changed: stripped !== buffer };
+  }
+
+  // 压缩 GIF 会丢失动画，交给调用方按文件发送
+  if (mimeType === "image/gif") return null;
+
+  logger.log(`[图片] 需要转换 | mimeType: ${mimeType} | size: ${(buffer.length / 1024).toFixed(1)} KB`);
+  const encoders = hasFFmpeg() ? [ffmpegEncoder, runtimeEncoder] : [runtimeEncoder];
+  for (const encoder of encoders) {
+    try {
+      const result = await reencodeImage(buffer, fileName, options, encoder);
+      if (!result) return null;
+      const base = path.basename(fileName, path.extname(fileName)) || "image";
+      return {
+        buffer: result.buffer,
+        fileName: `${base}.${result.format}`,
+        mimeType: result.format === "jpg" ? "image/jpeg" : "image/png",
+        changed: true,
+      };
+    } catch (err) {
+      logger.warn(`[图片] ${encoder.name} 转换失败: ${String(err)}`);
+    }
+  }
+  return null;
+}
+
+// ======================= 图片发送 =======================
+
+/**
+ * 按 images.delivery 发送图片，消息中不会出现 access_token
+ *
+ * - mediaId：上传后以 mediaId 作为 photoURL 发送
+ * - markdown：来源是公网 URL 且图片未经处理时以 Markdown 图片嵌入该 URL；本地图片或处理过的图片
+ *   （格式转换、压缩、去除位置信息）改用 mediaId，避免原图绕过处理
+ * - proxy：保存到网关并发送带签名和有效期的链接，未配置 proxyBaseUrl 时改用 mediaId
+ *
+ * @param image.upload - 上传到钉钉（只在需要 mediaId 时调用）
+ */
+export async function sendImage(
+  to: string,
+  image: {
+    buffer: Buffer;
+    mimeType: string;
+    /** 图片来源（URL 或本地路径） */
+    sourceUrl: string;
+    /** buffer 是否经过处理，与来源的内容不同 */
+    changed: boolean;
+    upload: () => Promise<UploadMediaResult>;
+  },
+  account: ResolvedDingTalkAccount
+): Promise<SendMessageResult> {
+  const { delivery, proxyBaseUrl, proxyTtlMs } = account.images;
+
+  if (delivery === "proxy") {
+    if (proxyBaseUrl) {
+      const url = await publishProxyMedia(image.buffer, image.mimeType, proxyBaseUrl, proxyTtlMs);
+      return sendImageMessage(to, url, { account });
+    }
+    logger.warn("[图片] delivery=proxy 但未配置 images.proxyBaseUrl，改用 mediaId 发送");
+  }
+
+  if (delivery === "markdown") {
+    if (image.changed) {
+      logger.log("[图片] 图片已处理，来源 URL 仍是原图，改用 mediaId 发送");
+    } else if (/^https?:\/\//i.test(image.sourceUrl)) {
+      return sendTextMessage(to, `![图片](${image.sourceUrl})`, { account });
+    } else {
+      logger.log("[图片] 本地图片没有公网 URL，改用 mediaId 发送");
+    }
+  }
+
+  const { mediaId } = await image.upload();
+  return sendImageMessage(to, mediaId, { account });
+}
@@ -0,0 +1,179 @@
+import crypto from "node:crypto";
+import type { InteractiveReply } from "openclaw/plugin-sdk/interactive-runtime";
+import type { DingTalkCardCallbackData, InteractiveCardButton, InteractiveCardMessage } from "./types.js";
+import { sendInteractiveCard, type SendMessageOptions, type SendMessageResult } from "./client.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/** 互动卡片记录保留时长（钉钉卡片回传有效期内足够长） */
+const CARD_RECORD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** 卡片标题最大长度 */
+const CARD_TITLE_MAX_LENGTH = 20;
+
+/**
+ * 已发送的互动卡片记录
+ * 按钮回传时据此找回卡片所在会话和按钮文字
+ */
+export interface InteractiveCardRecord {
+  accountId: string;
+  /** 发送目标（chat:<openConversationId> 或 userId） */
+  to: string;
+  title: string;
+  buttons: InteractiveCardButton[];
+  createdAt: number;
+}
+
+/** outTrackId -> 卡片记录 */
+const cardRecords = new Map<string, InteractiveCardRecord>();
+
+/** 清理过期记录 */
+function pruneCardRecords(now: number): void {
+  for (const [outTrackId, record] of cardRecords) {
+    if (now - record.createdAt > CARD_RECORD_TTL_MS) {
+      cardRecords.delete(outTrackId);
+    }
+  }
+}
+
+/** 按 outTrackId 查找互动卡片记录 */
+export function getInteractiveCardRecord(outTrackId: string): InteractiveCardRecord | undefined {
+  return cardRecords.get(outTrackId);
+}
+
+/**
+ * 将 OpenClaw 结构化回复（text / buttons / select 块）转换为互动卡片
+ * 没有任何按钮时返回 null，调用方按普通文本发送
+ */
+export function buildInteractiveCard(params: {
+  text?: string;
+  interactive?: InteractiveReply;
+}): InteractiveCardMessage | null {
+  const textParts: string[] = [];
+  const buttons: InteractiveCardButton[] = [];
+
+  if (params.text?.trim()) {
+    textParts.push(params.text.trim());
+  }
+  for (const block of params.interactive?.blocks ?? []) {
+    if (block.type === "text") {
+      if (block.text.trim()) textParts.push(block.text.trim());
+    } else if (block.type === "buttons") {
+      for (const btn of block.buttons) {
+        buttons.push({ id: btn.value, text: btn.label, style: btn.style });
+      }
+    } else {
+      // 钉钉互动卡片没有通用下拉框，选项逐个渲染为按钮
+      if (block.placeholder?.trim()) textParts.push(block.placeholder.trim());
+      for (const option of block.options) {
+        buttons.push({ id: option.value, text: option.label, style: "secondary" });
+      }
+    }
+  }
+
+  if (buttons.length === 0) return null;
+
+  const markdown = textParts.join("\n\n");
+  const firstLine = markdown.split("\n")[0]?.replace(/^#+\s*/, "").replace(/[*_`]/g, "").trim() ?? "";
+  return {
+    title: firstLine.slice(0, CARD_TITLE_MAX_LENGTH) || "请选择",
+    markdown,
+    buttons,
+  };
+}
+
+/**
+ * 发送互动卡片并登记，供按钮回传时找回会话
+ * @returns messageId 为卡片 outTrackId，可用于 edit 操作更新卡片
+ */
+export async function sendInteractiveReplyCard(
+  to: string,
+  card: InteractiveCardMessage,
+  options: SendMessageOptions
+): Promise<SendMessageResult> {
+  const outTrackId = `${PLUGIN_ID}-${crypto.randomUUID()}`;
+  const result = await sendInteractiveCard(to, outTrackId, card, options);
+
+  const now = Date.now();
+  pruneCardRecords(now);
+  cardRecords.set(outTrackId, {
+    accountId: options.account.accountId,
+    to,
+    title: card.title,
+    buttons: card.buttons,
+    createdAt: now,
+  });
+
+  return result;
+}
+
+/** 卡片回传解析结果 */
+export interface CardCallbackAction {
+  /** 被点击的按钮 ID */
+  actionId?: string;
+  /** 回传参数（包含表单输入） */
+  params: Record<string, unknown>;
+}
+
+/**
+ * 解析卡片回传内容
+ * 回传内容为 JSON 字符串：{ cardPrivateData: { actionIds: [...], params: {...} } }
+ */
+export function parseCardCallback(data: DingTalkCardCallbackData): CardCallbackAction {
+  const raw = data.content ?? data.value;
+  if (!raw) return { params: {} };
+
+  let parsed: { cardPrivateData?: { actionIds?: unknown; params?: unknown } };
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { params: {} };
+  }
+
+  const privateData = parsed.cardPrivateData ?? {};
+  const actionIds = Array.isArray(privateData.actionIds) ? privateData.actionIds : [];
+  const params = privateData.params && typeof privateData.params === "object"
+    ? (privateData.params as Record<string, unknown>)
+    : {};
+
+  const actionId = typeof actionIds[0] === "string"
+    ? actionIds[0]
+    : typeof params.action === "string" ? params.action : undefined;
+
+  return { actionId, params };
+}
+
+/**
+ * 根据回传解析卡片所在会话
+ * 优先使用发送时的登记记录；进程重启后记录丢失时按回传场域推断
+ */
+export function resolveCardCallbackTarget(
+  data: DingTalkCardCallbackData,
+  record?: InteractiveCardRecord
+): { to: string; isGroup: boolean } {
+  if (record) {
+    return { to: record.to, isGroup: record.to.startsWith("chat:") };
+  }
+  const isGroup = (data.spaceType ?? "").toUpperCase().includes("GROUP") && !!data.spaceId;
+  return isGroup ? { to: `chat:${data.spaceId}`, isGroup } : { to: data.userId, isGroup };
+}
+
+/** 将卡片回传格式化为发给 Agent 的消息正文 */
+export function formatCardActionBody(params: {
+  title?: string;
+  label?: string;
+  action: CardCallbackAction;
+}): string {
+  const { title, label, action } = params;
+  const lines = [`[卡片操作] ${title ? `「${title}」` : ""}点击了「${label ?? action.actionId ?? "未知按钮"}」`];
+  if (action.actionId) {
+    lines.push(`actionId: ${action.actionId}`);
+  }
+  const formEntries = Object.entries(action.params).filter(([key]) => key !== "action");
+  if (formEntries.length > 0) {
+    lines.push("表单内容:");
+    for (const [key, value] of formEntries) {
+      lines.push(`- ${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,103 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import {
+  MEDIA_UPLOAD_MAX_BYTES,
+  getConversationSpaceId,
+  uploadFileToSpace,
+  sendSpaceFileToConversation,
+  sendLinkMessage,
+  grantSpaceFilePermission,
+  resolveTargetUserIds,
+  isGroupTarget,
+  extractTargetId,
+  type SendMessageResult,
+  type SpaceFile,
+} from "./client.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/**
+ * 大文件发送（钉盘）
+ *
+ * media/upload 接口只接受 20MB 以内的文件。配置 largeFiles.operatorUserId 后，更大的文件分片上传到钉盘：
+ * - 群聊：上传到该群的群文件空间，再以文件消息发到群里
+ * - 单聊等其他目标：上传到 largeFiles.spaceId，授予接收人查看和下载权限后发送打开该文件的链接消息
+ */
+
+/** `${accountId}|${openConversationId}` -> 群文件空间 ID */
+const conversationSpaces = new Map<string, string>();
+
+/** 是否启用大文件发送 */
+export function isLargeFileEnabled(account: ResolvedDingTalkAccount): boolean {
+  return Boolean(account.largeFiles.operatorUserId);
+}
+
+/** 是否需要走钉盘发送（超出 media/upload 上限且已启用） */
+export function shouldSendAsLargeFile(size: number, account: ResolvedDingTalkAccount): boolean {
+  return size > MEDIA_UPLOAD_MAX_BYTES && isLargeFileEnabled(account);
+}
+
+async function resolveConversationSpace(openConversationId: string, operatorUserId: string, account: ResolvedDingTalkAccount): Promise<string> {
+  const key = `${account.accountId}|${openConversationId}`;
+  const cached = conversationSpaces.get(key);
+  if (cached) return cached;
+  const spaceId = await getConversationSpaceId(openConversationId, operatorUserId, account);
+  conversationSpaces.set(key, spaceId);
+  return spaceId;
+}
+
+/** 打开钉盘文件的链接 */
+function buildFileLink(file: SpaceFile, account: ResolvedDingTalkAccount): string {
+  const template = account.largeFiles.linkTemplate;
+  if (template.includes("{uuid}") && !file.uuid) {
+    throw new Error(`钉盘未返回文件 uuid，无法生成链接 | fileId: ${file.fileId}`);
+  }
+  return template
+    .replace(/\{uuid\}/g, encodeURIComponent(file.uuid ?? ""))
+    .replace(/\{spaceId\}/g, encodeURIComponent(file.spaceId))
+    .replace(/\{fileId\}/g, encodeURIComponent(file.fileId));
+}
+
+/**
+ * 通过钉盘发送大文件
+ * 超出 largeFiles.maxSizeMB 或非群聊目标未配置 largeFiles.spaceId 时抛出错误
+ */
+export async function sendLargeFile(
+  to: string,
+  file: { buffer: Buffer; fileName: string },
+  account: ResolvedDingTalkAccount
+): Promise<SendMessageResult> {
+  const { operatorUserId, spaceId, maxBytes } = account.largeFiles;
+  if (!operatorUserId) {
+    throw new Error(`大文件发送未启用，请配置 channels.${PLUGIN_ID}.largeFiles.operatorUserId`);
+  }
+  const sizeMB = (file.buffer.length / 1024 / 1024).toFixed(1);
+  if (file.buffer.length > maxBytes) {
+    throw new Error(`文件 ${sizeMB}MB 超出大文件上限 ${Math.round(maxBytes / 1024 / 1024)}MB（largeFiles.maxSizeMB）`);
+  }
+
+  logger.log(`[大文件] 通过钉盘发送 | to: ${to} | fileName: ${file.fileName} | size: ${sizeMB}MB`);
+
+  if (isGroupTarget(to)) {
+    const openConversationId = extractTargetId(to);
+    const conversationSpaceId = await resolveConversationSpace(openConversationId, operatorUserId, account);
+    const uploaded = await uploadFileToSpace(conversationSpaceId, file.buffer, file.fileName, operatorUserId, account);
+    return sendSpaceFileToConversation(openConversationId, uploaded, operatorUserId, account);
+  }
+
+  if (!spaceId) {
+    throw new Error(`单聊发送大文件需要配置 channels.${PLUGIN_ID}.largeFiles.spaceId`);
+  }
+  const recipients = await resolveTargetUserIds(to, account);
+  const uploaded = await uploadFileToSpace(spaceId, file.buffer, file.fileName, operatorUserId, account);
+  // 接收人不一定有该空间的权限，先授权再发链接
+  const granted = await grantSpaceFilePermission(uploaded, recipients, operatorUserId, account);
+  if (granted.length === 0) {
+    throw new Error(`无法为接收人授予钉盘文件权限，未发送链接 | to: ${to}`);
+  }
+  return sendLinkMessage(to, {
+    account,
+    title: `📎 ${uploaded.name}`,
+    text: `文件大小 ${sizeMB}MB，点击在钉盘中查看和下载`,
+    messageUrl: buildFileLink(uploaded, account),
+  });
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderDingTalkMarkdown } from "./markdown.js";
+
+test("表格转为列表", () => {
+  assert.equal(
+    renderDingTalkMarkdown("| 名称 | 状态 |\n| --- | :---: |\n| a | 完成 |\n| b | 进行中 |"),
+    "- **a**：完成\n- **b**：进行中"
+  );
+  assert.equal(
+    renderDingTalkMarkdown("| 名称 | 负责人 | 状态 |\n|---|---|---|\n| a | 张三 | 完成 |"),
+    "- **a** — 负责人: 张三 · 状态: 完成"
+  );
+});
+
+test("含竖线的段落后跟 --- 是 setext 标题而不是表格", () => {
+  assert.equal(renderDingTalkMarkdown("a | b\n---\nc"), "## a | b\nc");
+});
+
+test("嵌套列表拍平为一级", () => {
+  assert.equal(
+    renderDingTalkMarkdown("- a\n  - b\n    - c\n1. x\n   1) y"),
+    "- a\n- ◦ b\n- 　▪ c\n1. x\n- ◦ 1. y"
+  );
+});
+
+test("setext 标题转为 # 标题", () => {
+  assert.equal(renderDingTalkMarkdown("标题\n===\n\n副标题\n---"), "# 标题\n\n## 副标题");
+});
+
+test("转义 < 但保留允许的标签和行内代码", () => {
+  assert.equal(
+    renderDingTalkMarkdown("a <b> <font color=red>x</font> `<c>`"),
+    "a &lt;b> <font color=red>x</font> `<c>`"
+  );
+});
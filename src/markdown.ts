@@ -0,0 +1,298 @@
+/**
+ * 钉钉 Markdown 方言渲染
+ *
+ * 钉钉的 sampleMarkdown / webhook markdown 只支持 Markdown 的子集：不支持表格和嵌套列表，
+ * 代码块支持有限，且消息标题单独展示在会话列表和通知栏中。
+ * Agent 输出的标准 Markdown 在发送前经过这里转换为钉钉能正常展示的格式。
+ */
+
+/** 钉钉 markdown 中可以保留的 HTML 标签 */
+const ALLOWED_TAG_PATTERN = /^<\/?(font|br)\b[^>]*>/i;
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+/** 表格分隔行：至少两列（单独的 --- 是 setext 标题或分隔线，不是表格） */
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/;
+const LIST_ITEM_PATTERN = /^([ \t]*)([-*+]|\d+[.)])[ \t]+(.*)$/;
+const HORIZONTAL_RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+/** 嵌套列表拍平后，按层级使用的项目符号 */
+const NESTED_BULLETS = ["◦", "▪"];
+
+/** 默认标题（正文中没有可用作标题的文字时使用） */
+const DEFAULT_TITLE = "消息";
+
+/** 标题最大长度 */
+const TITLE_MAX_LENGTH = 20;
+
+/** 判断是否为代码围栏的结束行 */
+function isFenceClose(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith(fence) && new RegExp(`^\\${fence[0]}+$`).test(trimmed);
+}
+
+/** 拆分表格行的单元格（忽略首尾的竖线和转义的竖线） */
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * 表格转列表
+ * 每行数据转为一个列表项：第一列加粗，其余列以「表头: 值」的形式跟在后面
+ */
+function renderTable(header: string[], rows: string[][]): string[] {
+  return rows.map((row) => {
+    const [first = "", ...rest] = row;
+    const details = rest
+      .map((cell, index) => {
+        if (!cell) return "";
+        const name = header[index + 1];
+        return name ? `${name}: ${cell}` : cell;
+      })
+      .filter(Boolean);
+    const lead = first ? `**${first}**` : header[0] ?? "";
+    if (header.length <= 2 && details.length === 1) {
+      return `- ${lead}：${rest.find(Boolean)}`;
+    }
+    return details.length > 0 ? `- ${lead} — ${details.join(" · ")}` : `- ${lead}`;
+  });
+}
+
+/** 转义钉钉无法正常展示的字符（跳过行内代码） */
+function escapeInline(line: string): string {
+  return line
+    .split(/(`[^`]*`)/)
+    .map((part, index) => {
+      if (index % 2 === 1) return part;
+      // 钉钉会把不认识的 <xxx> 当作 HTML 标签吞掉
+      return part.replace(/</g, (match, offset: number) =>
+        ALLOWED_TAG_PATTERN.test(part.slice(offset)) ? match : "&lt;"
+      );
+    })
+    .join("");
+}
+
+/**
+ * 规范化标题行：最多 6 级、去掉结尾的 #
+ * "#话题" 这类 # 后没有空格的内容不是标题，保持原样
+ */
+function normalizeHeading(line: string): string | null {
+  const match = /^\s{0,3}(#+)[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/.exec(line);
+  if (!match || !match[2]) return null;
+  return `${"#".repeat(Math.min(match[1].length, 6))} ${match[2]}`;
+}
+
+/** 规范化列表项：统一项目符号，嵌套列表拍平为一级，任务列表转为勾选符号 */
+function normalizeListItem(match: RegExpExecArray): string {
+  const indent = match[1].replace(/\t/g, "    ").length;
+  const level = Math.floor(indent / 2);
+  const ordered = /^\d/.test(match[2]);
+  let content = match[3]
+    .replace(/^\[ \][ \t]+/, "☐ ")
+    .replace(/^\[[xX]\][ \t]+/, "☑ ");
+
+  if (level === 0) {
+    return ordered ? `${match[2].replace(")", ".")} ${content}` : `- ${content}`;
+  }
+  const bullet = NESTED_BULLETS[Math.min(level, NESTED_BULLETS.length) - 1];
+  if (ordered) content = `${match[2].replace(")", ".")} ${content}`;
+  return `- ${"　".repeat(level - 1)}${bullet} ${content}`;
+}
+
+/**
+ * 将 Agent 输出的 Markdown 转换为钉钉 Markdown
+ *
+ * - 表格转为列表
+ * - 标题限制为 6 级，setext 标题（下划线 === / ---）转为 # 标题
+ * - 列表统一使用 - 和 1.，嵌套列表拍平为一级
+ * - 转义会被钉钉当作 HTML 吞掉的 <
+ * - 代码块内容保持不变
+ *
+ * 渲染结果再次渲染保持不变，可以在分段和发送时重复调用
+ */
+export function renderDingTalkMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const out: string[] = [];
+  let fence: string | null = null;
+
+  const pushBlock = (blockLines: string[]) => {
+    if (out.length > 0 && out[out.length - 1].trim()) out.push("");
+    out.push(...blockLines);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      out.push(line);
+      if (isFenceClose(line, fence)) fence = null;
+      continue;
+    }
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      out.push(line);
+      continue;
+    }
+
+    // 表格：表头行 + 分隔行 + 数据行
+    if (line.includes("|") && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1])) {
+      const header = splitTableRow(line).map(escapeInline);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]).map(escapeInline));
+        i++;
+      }
+      i--;
+      pushBlock(rows.length > 0 ? renderTable(header, rows) : [`- ${header.join(" · ")}`]);
+      if (i + 1 < lines.length && lines[i + 1].trim()) out.push("");
+      continue;
+    }
+
+    // setext 标题
+    const next = lines[i + 1];
+    if (line.trim() && next !== undefined && /^\s*(=+|-+)\s*$/.test(next) && !LIST_ITEM_PATTERN.test(line) && !/^\s*#/.test(line)) {
+      out.push(`${next.trim().startsWith("=") ? "#" : "##"} ${escapeInline(line.trim())}`);
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}#/.test(line)) {
+      const heading = normalizeHeading(line);
+      if (heading) {
+        out.push(escapeInline(heading));
+        continue;
+      }
+    }
+
+    if (HORIZONTAL_RULE_PATTERN.test(line)) {
+      out.push(line.trim());
+      continue;
+    }
+
+    const listMatch = LIST_ITEM_PATTERN.exec(line);
+    if (listMatch) {
+      out.push(escapeInline(normalizeListItem(listMatch)));
+      continue;
+    }
+
+    out.push(escapeInline(line));
+  }
+
+  return out.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/** 常见 Markdown 语法（标题、列表、引用、强调、链接、图片、代码、表格） */
+const MARKDOWN_SYNTAX_PATTERN = /(^|\n)\s{0,3}(#{1,6}\s|[-*+]\s|\d+[.)]\s|>|`{3}|~{3}|\|)|\*\*|__|~~|`|!?\[[^\]]*\]\([^)]*\)/;
+
+/** 判断文本是否使用了 Markdown 语法（纯文本可以用 text 消息发送） */
+export function hasMarkdownSyntax(text: string): boolean {
+  return MARKDOWN_SYNTAX_PATTERN.test(text);
+}
+
+/** 去掉一行中的 Markdown 语法，得到纯文本 */
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/^\s*#+\s+(.*?)(\s+#+)?\s*$/, "$1")
+    .replace(/^\s*(>\s*)+/, "")
+    .replace(/^\s*([-*+]|\d+[.)])\s+/, "")
+    .replace(/^[☐☑◦▪　]+\s*/, "")
+    .replace(/^\[[ xX]\]\s+/, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/(\*\*|__|~~|`)/g, "")
+    .replace(/(^|\s)[*_](\S)/g, "$1$2")
+    .replace(/(\S)[*_](?=\s|$)/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 从正文中提取消息标题（会话列表和通知栏中展示）
+ * 取第一行有意义的文字，跳过代码块、分隔线和表格分隔行，并去掉 Markdown 语法
+ */
+export function deriveMarkdownTitle(markdown: string): string {
+  let fence: string | null = null;
+  for (const line of markdown.split(/\r?\n/)) {
+    if (fence) {
+      if (isFenceClose(line, fence)) fence = null;
+      continue;
+    }
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+    if (HORIZONTAL_RULE_PATTERN.test(line) || TABLE_SEPARATOR_PATTERN.test(line) || /^\s*(=+|-+)\s*$/.test(line)) {
+      continue;
+    }
+
+    const text = stripInlineMarkdown(line.includes("|") ? splitTableRow(line).filter(Boolean).join(" ") : line);
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+    return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+  }
+  return DEFAULT_TITLE;
+}
+
+/** 按空行拆分为块（代码块整体作为一个块） */
+function splitMarkdownBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of markdown.split("\n")) {
+    if (fence) {
+      current.push(line);
+      if (isFenceClose(line, fence)) fence = null;
+      continue;
+    }
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      current.push(line);
+      continue;
+    }
+    if (!line.trim()) {
+      if (current.length > 0) blocks.push(current.join("\n"));
+      current = [];
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) blocks.push(current.join("\n"));
+  return blocks;
+}
+
+/**
+ * 渲染并分段（outbound.chunker）
+ * 只在块（段落、列表、由表格转换的列表、代码块）之间断开，单个块超过上限时才交给 splitLongBlock 按长度拆分
+ */
+export function chunkDingTalkMarkdown(
+  markdown: string,
+  limit: number,
+  splitLongBlock: (block: string, limit: number) => string[]
+): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const block of splitMarkdownBlocks(renderDingTalkMarkdown(markdown))) {
+    if (block.length > limit) {
+      if (current) chunks.push(current);
+      current = "";
+      chunks.push(...splitLongBlock(block, limit));
+      continue;
+    }
+    const candidate = current ? `${current}\n\n${block}` : block;
+    if (candidate.length <= limit) {
+      current = candidate;
+    } else {
+      chunks.push(current);
+      current = block;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,139 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { getDingTalkRuntime } from "./runtime.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/**
+ * 图片代理
+ *
+ * images.delivery=proxy 时，图片保存在 OpenClaw 状态目录中，由网关通过带签名和过期时间的 URL 对外提供，
+ * 消息中只出现这个 URL，不会出现钉钉 access_token。
+ */
+
+/** 网关路由前缀 */
+export const MEDIA_PROXY_ROUTE = `/${PLUGIN_ID}/media/`;
+
+/** 代理文件 id 格式 */
+const MEDIA_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+interface ProxyMediaMeta {
+  mimeType: string;
+  expiresAt: number;
+}
+
+function resolveMediaDir(): string {
+  return path.join(getDingTalkRuntime().state.resolveStateDir(), PLUGIN_ID, "media");
+}
+
+let signingKey: Promise<Buffer> | null = null;
+
+/** 签名密钥（首次使用时生成并持久化，网关重启后已发出的链接仍然有效） */
+function getSigningKey(): Promise<Buffer> {
+  if (!signingKey) {
+    signingKey = (async () => {
+      const keyPath = path.join(getDingTalkRuntime().state.resolveStateDir(), PLUGIN_ID, "media-proxy.key");
+      try {
+        return Buffer.from((await fs.readFile(keyPath, "utf-8")).trim(), "hex");
+      } catch {
+        const key = crypto.randomBytes(32);
+        await fs.mkdir(path.dirname(keyPath), { recursive: true });
+        await fs.writeFile(keyPath, key.toString("hex"), { mode: 0o600 });
+        return key;
+      }
+    })();
+    signingKey.catch(() => {
+      signingKey = null;
+    });
+  }
+  return signingKey;
+}
+
+async function sign(id: string, expiresAt: number): Promise<string> {
+  return crypto.createHmac("sha256", await getSigningKey()).update(`${id}.${expiresAt}`).digest("hex");
+}
+
+/** 清理已过期的代理文件 */
+async function pruneExpiredMedia(dir: string): Promise<void> {
+  const now = Date.now();
+  for (const entry of await fs.readdir(dir).catch(() => [] as string[])) {
+    if (!entry.endsWith(".json")) continue;
+    const metaPath = path.join(dir, entry);
+    try {
+      const meta = JSON.parse(await fs.readFile(metaPath, "utf-8")) as ProxyMediaMeta;
+      if (meta.expiresAt > now) continue;
+    } catch { /* 损坏的元数据一并清理 */ }
+    await fs.rm(metaPath, { force: true });
+    await fs.rm(metaPath.slice(0, -".json".length), { force: true });
+  }
+}
+
+/**
+ * 保存图片并生成签名 URL
+ * @param baseUrl - 网关对外可访问的地址（images.proxyBaseUrl）
+ * @param ttlMs - 链接有效期
+ */
+export async function publishProxyMedia(
+  buffer: Buffer,
+  mimeType: string,
+  baseUrl: string,
+  ttlMs: number
+): Promise<string> {
+  const dir = resolveMediaDir();
+  await fs.mkdir(dir, { recursive: true });
+  await pruneExpiredMedia(dir).catch((err) => logger.warn(`[图片代理] 清理过期文件失败: ${String(err)}`));
+
+  const id = crypto.randomUUID();
+  const expiresAt = Date.now() + ttlMs;
+  await fs.writeFile(path.join(dir, id), buffer);
+  await fs.writeFile(path.join(dir, `${id}.json`), JSON.stringify({ mimeType, expiresAt } satisfies ProxyMediaMeta));
+
+  const url = `${baseUrl}${MEDIA_PROXY_ROUTE}${id}?exp=${expiresAt}&sig=${await sign(id, expiresAt)}`;
+  logger.log(`[图片代理] 已发布 | id: ${id} | 有效期至: ${new Date(expiresAt).toISOString()}`);
+  return url;
+}
+
+/**
+ * 网关 HTTP 路由处理：校验签名和有效期后返回图片
+ */
+export async function handleMediaProxyRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  if (!url.pathname.startsWith(MEDIA_PROXY_ROUTE)) return false;
+
+  const reply = (status: number, message: string) => {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.end(message);
+    return true;
+  };
+
+  if (req.method !== "GET" && req.method !== "HEAD") return reply(405, "Method Not Allowed");
+
+  const id = url.pathname.slice(MEDIA_PROXY_ROUTE.length);
+  const expiresAt = Number(url.searchParams.get("exp"));
+  const signature = url.searchParams.get("sig") ?? "";
+  if (!MEDIA_ID_PATTERN.test(id) || !Number.isFinite(expiresAt)) return reply(404, "Not Found");
+
+  const expected = Buffer.from(await sign(id, expiresAt), "hex");
+  const actual = Buffer.from(signature, "hex");
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return reply(403, "Forbidden");
+  }
+  if (expiresAt <= Date.now()) return reply(410, "Gone");
+
+  const dir = resolveMediaDir();
+  try {
+    const meta = JSON.parse(await fs.readFile(path.join(dir, `${id}.json`), "utf-8")) as ProxyMediaMeta;
+    const data = await fs.readFile(path.join(dir, id));
+    res.statusCode = 200;
+    res.setHeader("Content-Type", meta.mimeType);
+    res.setHeader("Content-Length", String(data.length));
+    res.setHeader("Cache-Control", `private, max-age=${Math.max(0, Math.floor((expiresAt - Date.now()) / 1000))}`);
+    res.end(req.method === "HEAD" ? undefined : data);
+    return true;
+  } catch {
+    return reply(404, "Not Found");
+  }
+}
@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rememberGroupMember, resolveMentions } from "./mentions.js";
+
+const ctx = { accountId: "default", groupId: "cid1", allowAtAll: true };
+
+test("只有完整的 @所有人 / @all 才 @ 所有人", () => {
+  assert.deepEqual(resolveMentions("@all 注意", ctx).at, { isAtAll: true });
+  assert.deepEqual(resolveMentions("@所有人，注意", ctx).at, { isAtAll: true });
+  assert.equal(resolveMentions("@allen 注意", ctx).at, undefined);
+});
+
+test("短名字不会匹配更长的名字", () => {
+  rememberGroupMember("default", "cid1", "u1", "张三");
+  rememberGroupMember("default", "cid1", "u2", "Ann");
+  assert.deepEqual(resolveMentions("@张三 请看", ctx), { text: "@u1 请看", at: { atUserIds: ["u1"] } });
+  assert.deepEqual(resolveMentions("@Ann，请看", ctx), { text: "@u2，请看", at: { atUserIds: ["u2"] } });
+  assert.equal(resolveMentions("@张三丰 请看", ctx).at, undefined);
+  assert.equal(resolveMentions("@Anna 请看", ctx).at, undefined);
+});
@@ -0,0 +1,195 @@
+import type { AtConfig, DingTalkMessageData } from "./types.js";
+
+/**
+ * 群聊回复中的 @ 提及
+ *
+ * Agent 在回复中写 `@张三` 或 `@userId` 时，需要转换为钉钉能识别的 @：
+ * 正文中写 `@userId`，同时在 at.atUserIds 中列出该用户。
+ * 名字到 userId 的对应关系来自群里发过消息的成员（按群记录在内存中）和当前消息的 atUsers。
+ */
+
+/** 每个群最多记录的成员数 */
+const MAX_MEMBERS_PER_GROUP = 500;
+
+/** @所有人 的写法 */
+const AT_ALL_TOKENS = ["所有人", "all"];
+
+/** 手机号 */
+const MOBILE_PATTERN = /^1\d{10}(?!\d)/;
+
+/** @ 后面的内容（到空白或标点为止） */
+const MENTION_PATTERN = /@([^\s@，。,!?！？:：;；、()（）[\]【】<>"'`]+)/g;
+
+/** 名字或 ID 之后仍是文字（不是词边界） */
+const WORD_CONTINUATION_PATTERN = /^[\p{L}\p{N}_]/u;
+
+/** 代码块和行内代码（其中的 @ 不做处理） */
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/;
+
+/** 最多记录的「最近一条消息的 @ 列表」数 */
+const MAX_MESSAGE_MENTIONS = 1000;
+
+/** 最近一条消息的 @ 列表的有效期（Agent 处理该消息期间使用） */
+const MESSAGE_MENTIONS_TTL_MS = 60 * 60 * 1000;
+
+/** `${accountId}|${groupId}` -> userId -> 名字 */
+const groupMembers = new Map<string, Map<string, string>>();
+
+/** `${accountId}|${groupId}|${senderId}` -> 该成员最近一条消息 @ 的用户 */
+const messageMentions = new Map<string, { userIds: string[]; at: number }>();
+
+/** @ 后的内容是否以 name 开头且在 name 处结束（避免「@allen」被识别为「@all」） */
+function matchesMention(token: string, name: string): boolean {
+  return token.startsWith(name) && !WORD_CONTINUATION_PATTERN.test(token.slice(name.length));
+}
+
+/**
+ * 记录群成员（收到群消息时调用）
+ * 超过上限时淘汰最久没有发言的成员
+ */
+export function rememberGroupMember(accountId: string, groupId: string, userId: string, name?: string): void {
+  if (!userId || !name?.trim()) return;
+  const key = `${accountId}|${groupId}`;
+  let members = groupMembers.get(key);
+  if (!members) {
+    members = new Map();
+    groupMembers.set(key, members);
+  }
+  members.delete(userId);
+  members.set(userId, name.trim());
+  if (members.size > MAX_MEMBERS_PER_GROUP) {
+    members.delete(members.keys().next().value!);
+  }
+}
+
+/**
+ * 按 userId 或名字查找群成员
+ * @returns 用户 ID（未找到或有多个同名成员时返回 undefined）
+ */
+export function findGroupMember(accountId: string, groupId: string, token: string): string | undefined {
+  const members = groupMembers.get(`${accountId}|${groupId}`);
+  if (!members) return undefined;
+  const value = token.trim().replace(/^@/, "");
+  if (members.has(value)) return value;
+  const matches = [...members].filter(([, name]) => name === value);
+  return matches.length === 1 ? matches[0][0] : undefined;
+}
+
+/** 群成员的名字（没有在本群发过言时返回 undefined） */
+export function getGroupMemberName(accountId: string, groupId: string, userId: string): string | undefined {
+  return groupMembers.get(`${accountId}|${groupId}`)?.get(userId);
+}
+
+/**
+ * 记录群成员最近一条消息 @ 的用户（不含机器人），供日程等操作默认使用
+ */
+export function rememberMessageMentions(
+  accountId: string,
+  groupId: string,
+  data: Pick<DingTalkMessageData, "senderStaffId" | "chatbotUserId" | "atUsers">
+): void {
+  if (!data.senderStaffId) return;
+  const key = `${accountId}|${groupId}|${data.senderStaffId}`;
+  const userIds = (data.atUsers ?? [])
+    .filter((user) => user.staffId && user.dingtalkId !== data.chatbotUserId)
+    .map((user) => user.staffId!);
+  messageMentions.delete(key);
+  messageMentions.set(key, { userIds: [...new Set(userIds)], at: Date.now() });
+  if (messageMentions.size > MAX_MESSAGE_MENTIONS) {
+    messageMentions.delete(messageMentions.keys().next().value!);
+  }
+}
+
+/**
+ * 群成员最近一条消息 @ 的用户（已过期或没有记录时返回空数组）
+ */
+export function getMessageMentions(accountId: string, groupId: string, senderId: string): string[] {
+  const record = messageMentions.get(`${accountId}|${groupId}|${senderId}`);
+  return record && Date.now() - record.at < MESSAGE_MENTIONS_TTL_MS ? record.userIds : [];
+}
+
+export interface MentionContext {
+  accountId: string;
+  groupId: string;
+  /** 当前消息中被 @ 的用户 */
+  atUsers?: DingTalkMessageData["atUsers"];
+  /** 是否允许 @所有人 */
+  allowAtAll: boolean;
+  /** 需要额外 @ 的提问者 userId（atSender 开启时传入） */
+  senderId?: string;
+}
+
+/**
+ * 解析回复文本中的 @ 提及
+ *
+ * - `@名字`：按群成员名字完整匹配（同名成员有多个时不处理），正文改写为 `@userId`
+ * - `@userId`：群成员或当前消息 atUsers 中的 userId，同样需要完整匹配
+ * - `@手机号`：加入 atMobiles
+ * - `@所有人` / `@all`：仅 allowAtAll 开启时生效
+ * - senderId：未被提及时在回复中补充 @ 提问者
+ *
+ * @returns 改写后的文本和 @ 配置（没有任何提及时 at 为 undefined）
+ */
+export function resolveMentions(text: string, ctx: MentionContext): { text: string; at?: AtConfig } {
+  const members = groupMembers.get(`${ctx.accountId}|${ctx.groupId}`) ?? new Map<string, string>();
+
+  const knownIds = new Set<string>(members.keys());
+  for (const user of ctx.atUsers ?? []) {
+    if (user.staffId) knownIds.add(user.staffId);
+  }
+
+  // 名字 -> userId（同名时无法确定是谁，不参与匹配）
+  const nameToId = new Map<string, string | null>();
+  for (const [userId, name] of members) {
+    nameToId.set(name, nameToId.has(name) && nameToId.get(name) !== userId ? null : userId);
+  }
+  // 最长匹配优先；名字之后紧跟其他文字时不算匹配，避免「张三丰」被识别为「张三」
+  const candidates = [
+    ...[...knownIds].map((id) => ({ token: id, userId: id })),
+    ...[...nameToId].filter(([, id]) => id).map(([name, id]) => ({ token: name, userId: id! })),
+  ].sort((a, b) => b.token.length - a.token.length);
+
+  const atUserIds = new Set<string>();
+  const atMobiles = new Set<string>();
+  let isAtAll = false;
+
+  const resolveSegment = (segment: string) =>
+    segment.replace(MENTION_PATTERN, (match, token: string) => {
+      const mobile = MOBILE_PATTERN.exec(token);
+      if (mobile) {
+        atMobiles.add(mobile[0]);
+        return match;
+      }
+      const atAll = AT_ALL_TOKENS.find((t) => matchesMention(token.toLowerCase(), t));
+      if (atAll && ctx.allowAtAll) {
+        isAtAll = true;
+        return match;
+      }
+      const hit = candidates.find((c) => matchesMention(token, c.token));
+      if (!hit) return match;
+      atUserIds.add(hit.userId);
+      return `@${hit.userId}${token.slice(hit.token.length)}`;
+    });
+
+  let resolved = text
+    .split(CODE_PATTERN)
+    .map((part, index) => (index % 2 === 1 ? part : resolveSegment(part)))
+    .join("");
+
+  if (ctx.senderId && !atUserIds.has(ctx.senderId)) {
+    atUserIds.add(ctx.senderId);
+    resolved = `${resolved}\n\n@${ctx.senderId}`;
+  }
+
+  if (atUserIds.size === 0 && atMobiles.size === 0 && !isAtAll) {
+    return { text: resolved };
+  }
+  return {
+    text: resolved,
+    at: {
+      ...(atUserIds.size > 0 ? { atUserIds: [...atUserIds] } : {}),
+      ...(atMobiles.size > 0 ? { atMobiles: [...atMobiles] } : {}),
+      ...(isAtAll ? { isAtAll } : {}),
+    },
+  };
+}
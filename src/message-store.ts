@@ -0,0 +1,99 @@
+import path from "node:path";
+import { readJsonFileWithFallback, writeJsonFileAtomically } from "openclaw/plugin-sdk/json-store";
+import { getDingTalkRuntime } from "./runtime.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/** 发送记录保留时长 */
+const SENT_MESSAGE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** 最多保留的发送记录条数（超出时淘汰最早的记录） */
+const MAX_SENT_MESSAGES = 2000;
+
+/**
+ * 主动发送的消息记录
+ * 用于撤回、已读查询等需要按 messageId（processQueryKey）找回会话的场景
+ */
+export interface SentMessageRecord {
+  accountId: string;
+  /** 发送目标（chat:<openConversationId> 或 userId） */
+  to: string;
+  sentAt: number;
+}
+
+/** messageId -> 发送记录（持久化到 OpenClaw 状态目录，网关重启后仍可用） */
+let sentMessages: Map<string, SentMessageRecord> | null = null;
+let loadPromise: Promise<Map<string, SentMessageRecord>> | null = null;
+let saveChain: Promise<void> = Promise.resolve();
+
+function resolveStorePath(): string {
+  return path.join(getDingTalkRuntime().state.resolveStateDir(), PLUGIN_ID, "sent-messages.json");
+}
+
+async function loadSentMessages(): Promise<Map<string, SentMessageRecord>> {
+  if (sentMessages) return sentMessages;
+  if (!loadPromise) {
+    loadPromise = readJsonFileWithFallback<Record<string, SentMessageRecord>>(resolveStorePath(), {})
+      .then(({ value }) => {
+        sentMessages = new Map(Object.entries(value ?? {}));
+        return sentMessages;
+      })
+      .catch((err) => {
+        logger.warn(`[发送记录] 读取失败，使用空记录: ${String(err)}`);
+        sentMessages = new Map();
+        return sentMessages;
+      });
+  }
+  return loadPromise;
+}
+
+/** 清理过期和超量的记录（Map 按插入顺序遍历，最早的记录在前） */
+function pruneSentMessages(store: Map<string, SentMessageRecord>, now: number): void {
+  for (const [messageId, record] of store) {
+    if (now - record.sentAt > SENT_MESSAGE_TTL_MS || store.size > MAX_SENT_MESSAGES) {
+      store.delete(messageId);
+    } else {
+      break;
+    }
+  }
+}
+
+/** 串行写盘，避免并发写入互相覆盖 */
+function persistSentMessages(store: Map<string, SentMessageRecord>): Promise<void> {
+  saveChain = saveChain
+    .then(() => writeJsonFileAtomically(resolveStorePath(), Object.fromEntries(store)))
+    .catch((err) => {
+      logger.warn(`[发送记录] 写入失败: ${String(err)}`);
+    });
+  return saveChain;
+}
+
+/**
+ * 记录一条主动发送的消息
+ * 写盘失败只记日志，不影响发送结果
+ */
+export async function recordSentMessage(messageId: string, record: Omit<SentMessageRecord, "sentAt">): Promise<void> {
+  const store = await loadSentMessages();
+  const now = Date.now();
+  store.set(messageId, { ...record, sentAt: now });
+  pruneSentMessages(store, now);
+  await persistSentMessages(store);
+}
+
+/** 按 messageId 查找发送记录 */
+export async function getSentMessage(messageId: string): Promise<SentMessageRecord | undefined> {
+  const store = await loadSentMessages();
+  return store.get(messageId);
+}
+
+/** 删除发送记录（如消息已撤回） */
+export async function forgetSentMessages(messageIds: string[]): Promise<void> {
+  const store = await loadSentMessages();
+  let changed = false;
+  for (const messageId of messageIds) {
+    changed = store.delete(messageId) || changed;
+  }
+  if (changed) {
+    await persistSentMessages(store);
+  }
+}
@@ -1,11 +1,36 @@
-import { DWClient, TOPIC_ROBOT, type DWClientDownStream } from "dingtalk-stream";
+import { DWClient, TOPIC_ROBOT, TOPIC_CARD, type DWClientDownStream } from "dingtalk-stream";
 import { recordInboundSession } from "openclaw/plugin-sdk/conversation-runtime";
 import type { OpenClawConfig } from "openclaw/plugin-sdk/core";
+import type { InteractiveReply } from "openclaw/plugin-sdk/interactive-runtime";
 import type { RuntimeEnv } from "openclaw/plugin-sdk/runtime-env";
-import type { DingTalkMessageData, ResolvedDingTalkAccount, DingTalkGroupConfig, AudioContent, VideoContent, FileContent, PictureContent, RichTextContent, RichTextElement, RichTextPictureElement } from "./types.js";
-import { replyViaWebhook, getFileDownloadUrl, downloadFromUrl, sendTextMessage } from "./client.js";
+import type { DingTalkMessageData, DingTalkCardCallbackData, ResolvedDingTalkAccount, DingTalkGroupConfig, DingTalkReplyMode, ReplyBody, AudioContent, VideoContent, FileContent, PictureContent, RichTextContent, RichTextElement, RichTextPictureElement, DingTalkRepliedMessage } from "./types.js";
+import {
+  replyViaWebhook,
+  buildTextReplyBody,
+  sendReplyBody,
+  getFileDownloadUrl,
+  downloadFromUrl,
+  downloadMediaById,
+  downloadSpaceFile,
+  getUserDetail,
+  extractTargetId,
+} from "./client.js";
 import { resolveDingTalkAccount } from "./accounts.js";
+import { createAICardReplyStream, type AICardReplyStream } from "./ai-card.js";
+import { parseDirectoryQuery, resolveDirectoryEntries } from "./directory.js";
+import { rememberGroupMember, rememberMessageMentions, resolveMentions, getGroupMemberName } from "./mentions.js";
+import { getSenderProfile, buildSenderProfileContext } from "./sender-profile.js";
+import { extractReplyCards, readChannelDataCards, attachReplyText, renderReplyCardText, replyCardToBody } from "./card-block.js";
+import {
+  buildInteractiveCard,
+  sendInteractiveReplyCard,
+  getInteractiveCardRecord,
+  parseCardCallback,
+  resolveCardCallbackTarget,
+  formatCardActionBody,
+} from "./interactive-card.js";
 import { getDingTalkRuntime } from "./runtime.js";
+import { recordChannelRuntimeState } from "./runtime-state.js";
 import { logger } from "./logger.js";
 import { PLUGIN_ID } from "./constants.js";
 
@@ -314,7 +339,8 @@ const fileMessageHandler: MessageHandler = {
 
   validate: (data) => {
     const content = data.content as FileContent | undefined;
-    if (!content?.downloadCode) {
+    // 普通文件带下载码；从钉盘分享的文件只有 spaceId + fileId，部分大文件附件只有 mediaId
+    if (!content?.downloadCode && !(content?.spaceId && content.fileId) && !content?.mediaId) {
       return { valid: false, errorMessage: "文件处理失败：缺少下载码" };
     }
     return { valid: true };
@@ -322,11 +348,14 @@ const fileMessageHandler: MessageHandler = {
 
   handle: async (data, account) => {
     const content = data.content as FileContent;
-    const downloadCode = content.downloadCode!;
 
     try {
       const saved = await downloadAndSaveMedia({
-        downloadCode,
+        downloadCode: content.downloadCode,
+        spaceFile: content.spaceId && content.fileId
+          ? { spaceId: content.spaceId, fileId: content.fileId, userId: data.senderStaffId }
+          : undefined,
+        mediaId: content.mediaId,
         account,
         mediaKind: "file",
         extension: content.extension,
@@ -475,7 +504,7 @@ const richTextMessageHandler: MessageHandler = {
       const combinedText = textParts.join("\n").trim();
       if (combinedText) {
         // 将富文本中的文本内容写入 text 字段，以便后续流程使用
-        data.text = { content: combinedText };
+        data.text = { ...data.text, content: combinedText };
       }
 
       const media: InboundMediaContext | undefined = mediaItems.length > 0
@@ -544,53 +573,18 @@ export interface MonitorOptions {
 
 export type MonitorResult = Promise<void>;
 
-// Track runtime state in memory
-const runtimeState = new Map<
-  string,
-  {
-    running: boolean;
-    lastStartAt: number | null;
-    lastStopAt: number | null;
-    lastError: string | null;
-    lastInboundAt?: number | null;
-    lastOutboundAt?: number | null;
-  }
->();
-
-function recordChannelRuntimeState(params: {
-  channel: string;
-  accountId: string;
-  state: Partial<{
-    running: boolean;
-    lastStartAt: number | null;
-    lastStopAt: number | null;
-    lastError: string | null;
-    lastInboundAt: number | null;
-    lastOutboundAt: number | null;
-  }>;
-}): void {
-  const key = `${params.channel}:${params.accountId}`;
-  const existing = runtimeState.get(key) ?? {
-    running: false,
-    lastStartAt: null,
-    lastStopAt: null,
-    lastError: null,
-  };
-  runtimeState.set(key, { ...existing, ...params.state });
-}
-
-export function getDingTalkRuntimeState(accountId: string) {
-  return runtimeState.get(`${PLUGIN_ID}:${accountId}`);
-}
-
 // ============================================================================
 // 媒体下载与保存
 // ============================================================================
 
-/** 媒体下载保存选项 */
+/** 媒体下载保存选项（下载码、钉盘文件、mediaId 按顺序取第一个可用的） */
 interface DownloadMediaOptions {
   /** 下载码 */
-  downloadCode: string;
+  downloadCode?: string;
+  /** 钉盘文件（从钉盘分享的文件，spaceId + fileId），以 userId（通常是发送者）的身份下载 */
+  spaceFile?: { spaceId: string; fileId: string; userId: string };
+  /** 媒体 ID（没有下载码的部分大文件附件） */
+  mediaId?: string;
   /** 账户配置 */
   account: ResolvedDingTalkAccount;
   /** 媒体类型（用于日志） */
@@ -610,6 +604,38 @@ interface DownloadMediaResult {
   fileSize: number;
 }
 
+/**
+ * 下载媒体文件内容
+ * 钉盘文件只以发送者身份下载，发送者自己无权访问的文件不会代为下载
+ */
+async function downloadMediaBuffer(options: DownloadMediaOptions, kindLabel: string): Promise<Buffer> {
+  const { downloadCode, spaceFile, mediaId, account } = options;
+
+  if (downloadCode) {
+    const downloadUrl = await getFileDownloadUrl(downloadCode, account);
+    logger.log(`获取${kindLabel}下载链接成功`);
+    return downloadFromUrl(downloadUrl);
+  }
+
+  if (spaceFile) {
+    const { spaceId, fileId, userId } = spaceFile;
+    try {
+      return await downloadSpaceFile(spaceId, fileId, userId, account);
+    } catch (err) {
+      // 同时带有 mediaId 时改按 mediaId 下载
+      if (!mediaId) throw err;
+      logger.warn(`下载钉盘${kindLabel}失败，改按 mediaId 下载 | ${getErrorMessage(err)}`);
+      return downloadMediaById(mediaId, account);
+    }
+  }
+
+  if (mediaId) {
+    return downloadMediaById(mediaId, account);
+  }
+
+  throw new Error("缺少下载码");
+}
+
 /**
  * 下载钉钉媒体文件并保存到本地（通用函数）
  * 失败时直接抛出错误，错误消息可直接展示给用户
@@ -617,7 +643,7 @@ interface DownloadMediaResult {
 async function downloadAndSaveMedia(
   options: DownloadMediaOptions
 ): Promise<DownloadMediaResult> {
-  const { downloadCode, account, mediaKind, fileName } = options;
+  const { account, mediaKind, fileName } = options;
   const pluginRuntime = getDingTalkRuntime();
 
   const kindLabel = {
@@ -627,18 +653,14 @@ async function downloadAndSaveMedia(
     file: "文件",
   }[mediaKind];
 
-  // 1. 获取下载链接
-  const downloadUrl = await getFileDownloadUrl(downloadCode, account);
-  logger.log(`获取${kindLabel}下载链接成功`);
-
-  // 2. 下载文件
-  const buffer = await downloadFromUrl(downloadUrl);
+  // 1. 下载文件
+  const buffer = await downloadMediaBuffer(options, kindLabel);
   const sizeStr = buffer.length > 1024 * 1024
     ? `${(buffer.length / 1024 / 1024).toFixed(2)} MB`
     : `${(buffer.length / 1024).toFixed(2)} KB`;
   logger.log(`下载${kindLabel}成功，大小: ${sizeStr}`);
 
-  // 3. 使用 OpenClaw 的 media 工具保存，让 OpenClaw 自己处理文件名和后缀
+  // 2. 使用 OpenClaw 的 media 工具保存，让 OpenClaw 自己处理文件名和后缀
   const saved = await pluginRuntime.channel.media.saveMediaBuffer(
     buffer,
     undefined, // contentType: 让 OpenClaw 自动检测
@@ -663,6 +685,106 @@ function getErrorMessage(err: unknown): string {
   return String(err);
 }
 
+// ============================================================================
+// 引用回复
+// ============================================================================
+
+/** 引用消息的上下文 */
+interface QuotedMessageContext {
+  /** ReplyToId / ReplyToBody / ReplyToSender 等上下文字段 */
+  fields: Record<string, unknown>;
+  /** 引用消息中的媒体（已下载） */
+  mediaItems: MediaItem[];
+}
+
+/** 引用消息中可下载的媒体 */
+function getQuotedMediaInfo(
+  msgType: string,
+  content: NonNullable<DingTalkRepliedMessage["content"]>
+): Array<{ kind: MediaKind; downloadCode: string; extension?: string; fileName?: string; duration?: number }> {
+  if (msgType === "richText") {
+    return (content.richText ?? [])
+      .filter(isRichTextPicture)
+      .map((element) => ({ kind: "picture" as const, downloadCode: getRichTextPictureDownloadCode(element) ?? "", extension: element.extension }))
+      .filter((info) => info.downloadCode);
+  }
+  if (msgType !== "picture" && msgType !== "audio" && msgType !== "video" && msgType !== "file") return [];
+  const downloadCode = content.downloadCode ?? content.pictureDownloadCode;
+  if (!downloadCode) return [];
+  return [{ kind: msgType, downloadCode, extension: content.extension, fileName: content.fileName, duration: content.duration }];
+}
+
+/**
+ * 解析引用回复：被引用消息的发送者、文本和媒体
+ * 引用的图片、语音、视频、文件会下载到本地；下载失败只记日志，不影响当前消息
+ */
+async function resolveQuotedMessage(
+  data: DingTalkMessageData,
+  account: ResolvedDingTalkAccount
+): Promise<QuotedMessageContext | undefined> {
+  const replied = data.text?.repliedMsg;
+  if (!data.text?.isReplyMsg || !replied) return undefined;
+
+  const msgType = replied.msgType ?? "text";
+  const content = replied.content ?? {};
+  const mediaItems: MediaItem[] = [];
+
+  for (const info of getQuotedMediaInfo(msgType, content)) {
+    try {
+      const saved = await downloadAndSaveMedia({
+        downloadCode: info.downloadCode,
+        account,
+        mediaKind: info.kind,
+        extension: info.extension,
+        fileName: info.fileName,
+      });
+      mediaItems.push({
+        kind: info.kind,
+        path: saved.path,
+        contentType: saved.contentType,
+        fileSize: saved.fileSize,
+        fileName: info.fileName,
+        duration: info.duration,
+      });
+    } catch (err) {
+      logger.warn(`[引用回复] 引用的${info.kind}下载失败: ${getErrorMessage(err)}`);
+    }
+  }
+
+  const textParts = msgType === "richText"
+    ? parseRichTextContent({ richText: content.richText ?? [] }).textParts
+    : [content.text ?? content.recognition ?? ""];
+  const quotedText = textParts.join("\n").trim();
+  const placeholder = mediaItems.length > 0
+    ? generateMediaPlaceholder({ items: mediaItems })
+    : quotedText ? "" : `[${msgType}]`;
+  const body = [quotedText, placeholder].filter(Boolean).join("\n");
+
+  const isBot = Boolean(replied.senderId) && replied.senderId === data.chatbotUserId;
+  const sender = replied.senderNick || (isBot ? "assistant" : replied.senderId);
+
+  logger.log(`[引用回复] ${sender ?? "未知发送者"} | ${msgType} | ${body.slice(0, 50).replace(/\n/g, " ")}`);
+
+  return {
+    fields: {
+      ReplyToId: replied.msgId,
+      ReplyToBody: body,
+      ReplyToSender: sender,
+      ReplyToIsQuote: true,
+    },
+    mediaItems,
+  };
+}
+
+/** 卡片回传时查询点击者姓名的最长等待时间（超时后显示 userId，避免回传响应过慢） */
+const CARD_CLICKER_NAME_WAIT_MS = 1500;
+
+/** allowFrom 中通讯录查询解析失败或未找到时的重试间隔 */
+const ALLOW_FROM_RETRY_MS = 5 * 60 * 1000;
+
+/** 等待 allowFrom 首次通讯录解析的最长时间，超时后按已解析的结果判断（解析继续进行） */
+const ALLOW_FROM_WAIT_MS = 3000;
+
 /**
  * 启动钉钉 Stream 监听器
  */
@@ -672,6 +794,38 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
 
   const account = resolveDingTalkAccount({ cfg: config, accountId });
 
+  /** allowFrom 中通讯录查询（mobile: / email: / name:）解析出的用户 ID */
+  const directoryAllowIds = new Set<string>();
+  /** 尚未解析出用户 ID 的通讯录查询（按 ALLOW_FROM_RETRY_MS 重试） */
+  let pendingAllowEntries = account.allowFrom
+    .map((entry) => String(entry).trim())
+    .filter((entry) => parseDirectoryQuery(entry));
+  let allowRetryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const resolveDirectoryAllowFrom = async (): Promise<void> => {
+    const results = await resolveDirectoryEntries(account, pendingAllowEntries);
+    pendingAllowEntries = [];
+    for (const result of results) {
+      if (result.resolved && result.id) {
+        directoryAllowIds.add(result.id);
+      } else {
+        pendingAllowEntries.push(result.input);
+        logger.warn(`[allowFrom] ${result.note ?? `${result.input} 无法解析`}，${ALLOW_FROM_RETRY_MS / 60000} 分钟后重试`);
+      }
+    }
+    if (pendingAllowEntries.length > 0 && !abortSignal?.aborted) {
+      allowRetryTimer = setTimeout(() => void resolveDirectoryAllowFrom(), ALLOW_FROM_RETRY_MS);
+      allowRetryTimer.unref?.();
+    }
+  };
+
+  /** 首次解析的结果（启动后尚未解析完成时，不在白名单中的发送者等待该结果） */
+  let directoryAllowReady: Promise<void> | undefined = pendingAllowEntries.length > 0
+    ? resolveDirectoryAllowFrom().finally(() => {
+      directoryAllowReady = undefined;
+    })
+    : undefined;
+
   /** 检查发送者是否在 allowFrom 白名单中 */
   const isSenderAllowed = (senderId: string): boolean => {
     const allowList = account.allowFrom.map((entry) => String(entry).trim()).filter(Boolean);
@@ -679,11 +833,28 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
       return true;
     }
     const prefixPattern = new RegExp(`^${PLUGIN_ID}:(?:user:)?`, "i");
-    return allowList
+    return directoryAllowIds.has(senderId) || allowList
       .map((entry) => entry.replace(prefixPattern, ""))
       .includes(senderId);
   };
 
+  /**
+   * 等待 allowFrom 首次通讯录解析（最多 ALLOW_FROM_WAIT_MS）
+   * 已在白名单中（用户 ID 或已解析的查询）的发送者不等待
+   */
+  const waitForDirectoryAllowFrom = async (senderId: string): Promise<void> => {
+    if (!directoryAllowReady || isSenderAllowed(senderId)) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ALLOW_FROM_WAIT_MS);
+    });
+    try {
+      await Promise.race([directoryAllowReady, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
   // Record starting state
   recordChannelRuntimeState({
     channel: PLUGIN_ID,
@@ -808,7 +979,8 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
     data: DingTalkMessageData,
     sender: ReturnType<typeof buildSenderInfo>,
     rawBody: string,
-    media?: InboundMediaContext
+    media?: InboundMediaContext,
+    extraContext?: Record<string, unknown>
   ) => {
     const isGroup = sender.isGroup;
     const chatType = isGroup ? "group" : "direct";
@@ -873,29 +1045,57 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
     const ctxPayload = pluginRuntime.channel.reply.finalizeInboundContext({
       ...baseContext,
       ...mediaFields,
+      ...extraContext,
     });
 
     return { ctxPayload, route };
   };
 
+  /** 解析回复模式（群级配置优先于账户级） */
+  const resolveReplyMode = (data: DingTalkMessageData): DingTalkReplyMode => {
+    if (data.conversationType === "2") {
+      const groupId = data.openConversationId ?? data.conversationId;
+      const groupMode = resolveGroupConfig(groupId)?.replyMode;
+      if (groupMode) return groupMode;
+    }
+    return account.replyMode;
+  };
+
+  /** 解析群聊回复的 @ 配置（群级配置优先于账户级） */
+  const resolveGroupAtOptions = (groupId: string) => {
+    const groupConfig = resolveGroupConfig(groupId);
+    return {
+      atSender: groupConfig?.atSender ?? account.atSender,
+      allowAtAll: groupConfig?.allowAtAll ?? account.allowAtAll,
+    };
+  };
+
   /** 创建回复分发器 */
-  const createReplyDispatcher = (data: DingTalkMessageData) => ({
-    deliver: async (payload: { text?: string }) => {
-      const replyText = payload.text ?? "";
-      if (!replyText) return;
+  const createReplyDispatcher = (data: DingTalkMessageData, cardStream?: AICardReplyStream) => {
+    const isGroup = data.conversationType === "2";
+    const groupId = data.openConversationId ?? data.conversationId;
+    const to = isGroup ? `chat:${groupId}` : data.senderStaffId;
+    const atOptions = isGroup ? resolveGroupAtOptions(groupId) : undefined;
+    // 一轮回复只 @ 提问者一次（第一条文本回复）
+    let senderMentioned = false;
 
-      const isGroup = data.conversationType === "2";
-      const groupId = data.openConversationId ?? data.conversationId;
+    const recordOutbound = () => {
+      recordChannelRuntimeState({
+        channel: PLUGIN_ID,
+        accountId,
+        state: { lastOutboundAt: Date.now() },
+      });
+    };
 
-      // 优先使用 sessionWebhook 回复（群聊/单聊通用）
+    /**
+     * 发送回复消息体：优先使用 sessionWebhook（群聊/单聊通用），
+     * 失败时通过主动发送 API 发送同一个消息体
+     */
+    const deliverBody = async (body: ReplyBody) => {
       if (data.sessionWebhook) {
-        const result = await replyViaWebhook(data.sessionWebhook, replyText);
+        const result = await replyViaWebhook(data.sessionWebhook, body, { account, to });
         if (result.errcode === 0) {
-          recordChannelRuntimeState({
-            channel: PLUGIN_ID,
-            accountId,
-            state: { lastOutboundAt: Date.now() },
-          });
+          recordOutbound();
           return;
         }
         // webhook 失败（可能已过期），尝试主动发送 API 降级
@@ -903,24 +1103,87 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
       }
 
       // 降级：通过主动发送 API
-      const to = isGroup ? `chat:${groupId}` : data.senderStaffId;
-      await sendTextMessage(to, replyText, { account });
+      await sendReplyBody(to, body, { account });
+      recordOutbound();
+    };
 
-      recordChannelRuntimeState({
-        channel: PLUGIN_ID,
+    /** 发送文本回复 */
+    const deliverText = async (replyText: string, kind: string) => {
+      // AI 卡片模式：最终回复写入卡片，卡片不可用时降级为普通消息
+      if (cardStream && kind === "final" && (await cardStream.finish(replyText))) {
+        recordOutbound();
+        return;
+      }
+
+      if (!atOptions) {
+        await deliverBody(buildTextReplyBody(replyText));
+        return;
+      }
+
+      // 群聊：解析回复中的 @，并按配置 @ 提问者
+      const mentionSender = atOptions.atSender && !senderMentioned && Boolean(data.senderStaffId);
+      const { text, at } = resolveMentions(replyText, {
         accountId,
-        state: { lastOutboundAt: Date.now() },
+        groupId,
+        atUsers: data.atUsers,
+        allowAtAll: atOptions.allowAtAll,
+        senderId: mentionSender ? data.senderStaffId : undefined,
       });
-    },
-    onError: (err: unknown, info: { kind: string }) => {
-      logger.error(`${info.kind} reply failed:`, err);
-    },
-  });
+      senderMentioned ||= mentionSender;
+      await deliverBody(buildTextReplyBody(text, at));
+    };
+
+    return {
+      onReplyStart: async () => {
+        // AI 卡片模式：一轮对话开始即投放卡片，让用户尽早看到"处理中"
+        await cardStream?.start();
+      },
+      deliver: async (
+        payload: { text?: string; channelData?: Record<string, unknown>; interactive?: InteractiveReply },
+        info: { kind: string }
+      ) => {
+        // 带按钮的结构化回复：配置了互动卡片模板时以互动卡片发送，按钮点击会回传给 Agent
+        const interactiveCard = account.interactiveCardTemplateId
+          ? buildInteractiveCard({ text: payload.text, interactive: payload.interactive })
+          : null;
+        if (interactiveCard) {
+          if (cardStream?.isActive()) {
+            await cardStream.finish(interactiveCard.markdown);
+          }
+          await sendInteractiveReplyCard(to, interactiveCard, { account });
+          recordOutbound();
+          return;
+        }
+
+        // 提取卡片（代码块或 channelData），说明文本优先并入卡片正文
+        const extracted = extractReplyCards(payload.text ?? "");
+        const cards = [...readChannelDataCards(payload.channelData), ...extracted.cards];
+        const replyText = attachReplyText(cards, extracted.text);
+        if (!replyText && cards.length === 0) return;
+
+        if (replyText) {
+          await deliverText(replyText, info.kind);
+        } else if (cardStream?.isActive()) {
+          // 文本全部并入了卡片，用卡片内容收起 AI 卡片，避免残留未完成状态
+          await cardStream.finish(cards.map(renderReplyCardText).join("\n\n"));
+        }
+
+        // ActionCard / FeedCard / 链接消息与文本走同一条回复链路
+        for (const card of cards) {
+          await deliverBody(replyCardToBody(card));
+        }
+      },
+      onError: (err: unknown, info: { kind: string }) => {
+        logger.error(`${info.kind} reply failed:`, err);
+      },
+    };
+  };
 
   /** 异步处理消息（不阻塞钉钉响应） */
   const processMessageAsync = async (
     data: DingTalkMessageData,
-    media?: InboundMediaContext
+    media?: InboundMediaContext,
+    extraContext?: Record<string, unknown>
   ) => {
     try {
       // 1. 构建发送者信息
@@ -929,8 +1192,26 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
       // 2. 构建消息体
       const { rawBody } = buildMessageBody(data, media);
 
+      // allowFrom 中的通讯录查询首次解析完成前，不在白名单中的发送者等待解析结果再判断权限
+      await waitForDirectoryAllowFrom(sender.senderId);
+
+      // 引用回复：被引用消息的内容和媒体一并交给 Agent（当前消息的媒体在前）
+      // 发送者资料：开启 senderProfile 时从通讯录补充部门、职位等
+      const [quoted, profile] = await Promise.all([
+        resolveQuotedMessage(data, account),
+        getSenderProfile(sender.senderId, account),
+      ]);
+      const mediaItems = [...(media?.items ?? []), ...(quoted?.mediaItems ?? [])];
+      const mergedMedia: InboundMediaContext | undefined = mediaItems.length > 0
+        ? { items: mediaItems, primary: media?.primary ?? mediaItems[0] }
+        : undefined;
+
       // 3. 构建入站上下文（含路由信息）
-      const { ctxPayload, route } = buildInboundContext(data, sender, rawBody, media);
+      const { ctxPayload, route } = buildInboundContext(data, sender, rawBody, mergedMedia, {
+        ...(profile ? buildSenderProfileContext(profile) : {}),
+        ...quoted?.fields,
+        ...extraContext,
+      });
 
       // 4. 持久化 session 元数据 + 更新回复路由（参照 Discord/Telegram）
       const storePath = pluginRuntime.channel.session.resolveStorePath(undefined, {
@@ -956,13 +1237,31 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
       });
 
       // 5. 分发消息给 OpenClaw
+      // AI 卡片模式下关闭分块发送，改为通过 onPartialReply 原地更新卡片
+      const replyTo = sender.isGroup ? `chat:${sender.groupId}` : sender.senderId;
+      const cardStream = resolveReplyMode(data) === "card"
+        ? createAICardReplyStream({ to: replyTo, account })
+        : undefined;
+
       const { queuedFinal } = await pluginRuntime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
         ctx: ctxPayload,
         cfg: config,
-        dispatcherOptions: createReplyDispatcher(data),
-        replyOptions: {},
+        dispatcherOptions: createReplyDispatcher(data, cardStream),
+        replyOptions: cardStream
+          ? {
+              disableBlockStreaming: true,
+              onPartialReply: (payload) => {
+                if (payload.text) cardStream.update(payload.text);
+              },
+            }
+          : {},
       });
 
+      // 没有最终回复时（如 NO_REPLY）收起已投放的卡片
+      if (cardStream?.isActive()) {
+        await cardStream.finish();
+      }
+
       if (!queuedFinal) {
         logger.log(`no response generated for message from ${sender.label}`);
       }
@@ -1012,6 +1311,12 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
         : "单聊";
       logger.log(`收到消息 | ${chatLabel} | ${data.senderNick}(${data.senderStaffId}) | ${preview}`);
 
+      // 记录群成员，用于解析回复中的 @名字；记录消息 @ 的用户，作为日程的默认参与人
+      if (isGroup) {
+        rememberGroupMember(accountId, groupId, data.senderStaffId, data.senderNick);
+        rememberMessageMentions(accountId, groupId, data);
+      }
+
       // 记录入站活动
       recordChannelRuntimeState({
         channel: PLUGIN_ID,
@@ -1061,8 +1366,135 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
     }
   };
 
+  // 处理互动卡片按钮回传：更新卡片状态，并作为一条消息交给 Agent
+  /**
+   * 检查卡片点击者能否在卡片所在会话中触发 Agent
+   * 单聊卡片只接受原接收人；群聊卡片按群级 allowFrom 检查（未配置时不限制）
+   */
+  const isCardClickerAllowed = (userId: string, to: string, groupId?: string): boolean => {
+    if (!groupId) return extractTargetId(to) === userId;
+    const allowList = (resolveGroupConfig(groupId)?.allowFrom ?? []).map((entry) => String(entry).trim()).filter(Boolean);
+    if (allowList.length === 0 || allowList.includes("*")) return true;
+    const prefixPattern = new RegExp(`^${PLUGIN_ID}:(?:user:)?`, "i");
+    return allowList.map((entry) => entry.replace(prefixPattern, "")).includes(userId);
+  };
+
+  /**
+   * 卡片点击者的显示名称
+   * 依次使用本群发过言的成员名字、通讯录姓名，都没有时（或查询超时）返回 userId
+   */
+  const resolveCardClickerName = async (userId: string, groupId?: string): Promise<string> => {
+    const memberName = groupId ? getGroupMemberName(accountId, groupId, userId) : undefined;
+    if (memberName) return memberName;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), CARD_CLICKER_NAME_WAIT_MS);
+    });
+    try {
+      const name = await Promise.race([
+        getUserDetail(userId, account).then((user) => user.name || undefined, (err) => {
+          logger.warn(`[卡片回传] 获取点击者姓名失败 | userId: ${userId} | ${getErrorMessage(err)}`);
+          return undefined;
+        }),
+        timeout,
+      ]);
+      if (name && groupId) rememberGroupMember(accountId, groupId, userId, name);
+      return name ?? userId;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const handleCardCallback = async (message: DWClientDownStream) => {
+    const messageId = message.headers.messageId;
+    try {
+      const data = JSON.parse(message.data) as DingTalkCardCallbackData;
+      const record = getInteractiveCardRecord(data.outTrackId);
+      if (record && record.accountId !== accountId) {
+        client.socketCallBackResponse(messageId, {});
+        return;
+      }
+
+      const { to, isGroup } = resolveCardCallbackTarget(data, record);
+      const groupId = isGroup ? to.slice("chat:".length) : undefined;
+      if (groupId && (!isGroupAllowed(groupId) || resolveGroupConfig(groupId)?.enabled === false)) {
+        logger.log(`卡片回传被群聊策略拒绝 | groupId: ${groupId}`);
+        client.socketCallBackResponse(messageId, {});
+        return;
+      }
+
+      if (!isCardClickerAllowed(data.userId, to, groupId)) {
+        logger.log(`卡片回传的点击者无权在该会话中操作 | userId: ${data.userId} | to: ${to}`);
+        client.socketCallBackResponse(messageId, {});
+        return;
+      }
+
+      const action = parseCardCallback(data);
+      const label = record?.buttons.find((b) => b.id === action.actionId)?.text;
+      const clickerName = await resolveCardClickerName(data.userId, groupId);
+      logger.log(`收到卡片回传 | ${isGroup ? `群聊(${groupId})` : "单聊"} | ${data.userId} | actionId: ${action.actionId ?? "-"} | outTrackId: ${data.outTrackId}`);
+
+      recordChannelRuntimeState({
+        channel: PLUGIN_ID,
+        accountId,
+        state: { lastInboundAt: Date.now() },
+      });
+
+      // 回传响应中直接更新卡片：显示处理结果并禁用按钮，避免重复点击
+      client.socketCallBackResponse(messageId, {
+        cardUpdateOptions: { updateCardDataByKey: true },
+        cardData: {
+          cardParamMap: {
+            status: `✅ ${clickerName} 已选择「${label ?? action.actionId ?? "未知按钮"}」`,
+            disabled: "true",
+          },
+        },
+      });
+
+      // 构造一条文本消息交给 Agent，路由到卡片所在会话
+      const now = Date.now();
+      const syntheticData: DingTalkMessageData = {
+        conversationId: groupId ?? data.userId,
+        conversationType: isGroup ? "2" : "1",
+        chatbotCorpId: data.corpId ?? "",
+        chatbotUserId: "",
+        msgId: `${data.outTrackId}:${now}`,
+        msgtype: "text",
+        createAt: String(now),
+        senderNick: clickerName,
+        senderStaffId: data.userId,
+        senderCorpId: data.corpId ?? "",
+        robotCode: account.clientId,
+        // 按钮点击是对机器人卡片的直接操作，视为 @ 了机器人
+        isInAtList: true,
+        text: {
+          content: formatCardActionBody({ title: record?.title, label, action }),
+        },
+        openConversationId: groupId,
+      };
+
+      await processMessageAsync(syntheticData, undefined, {
+        CardActionId: action.actionId,
+        CardActionParams: action.params,
+        CardOutTrackId: data.outTrackId,
+      });
+    } catch (error) {
+      logger.error("处理卡片回传出错:", error);
+      recordChannelRuntimeState({
+        channel: PLUGIN_ID,
+        accountId,
+        state: {
+          lastError: getErrorMessage(error),
+        },
+      });
+      client.socketCallBackResponse(messageId, {});
+    }
+  };
+
   // 注册消息监听器
   client.registerCallbackListener(TOPIC_ROBOT, handleMessage);
+  client.registerCallbackListener(TOPIC_CARD, handleCardCallback);
 
   // 注册连接事件
   client.on("open", () => {
@@ -1117,6 +1549,7 @@ export function monitorDingTalkProvider(options: MonitorOptions): MonitorResult
   return new Promise<void>((resolve) => {
     const stopHandler = () => {
       logger.log(`[${accountId}] 停止 provider`);
+      clearTimeout(allowRetryTimer);
       client.disconnect();
       recordChannelRuntimeState({
         channel: PLUGIN_ID,
@@ -0,0 +1,114 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import { getOTOReadStatus, isGroupTarget, extractTargetId, type OTOReadStatus } from "./client.js";
+import { recordChannelRuntimeState, getDingTalkRuntimeState, type ReadReceiptState } from "./runtime-state.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/** 运行时状态中最多保留的已读回执条数（超出时淘汰最早的记录） */
+const MAX_READ_RECEIPTS = 50;
+
+/** 正在轮询的消息：messageId -> 定时器 */
+const pollTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/** 写入账号运行时状态 */
+function recordReadReceipt(accountId: string, messageId: string, receipt: ReadReceiptState): void {
+  const receipts = { ...getDingTalkRuntimeState(accountId)?.readReceipts, [messageId]: receipt };
+  const messageIds = Object.keys(receipts);
+  for (const staleId of messageIds.slice(0, Math.max(0, messageIds.length - MAX_READ_RECEIPTS))) {
+    delete receipts[staleId];
+  }
+  recordChannelRuntimeState({
+    channel: PLUGIN_ID,
+    accountId,
+    state: { readReceipts: receipts },
+  });
+}
+
+/**
+ * 查询单聊主动消息的已读状态，并写入账号运行时状态
+ * @param to - 消息接收人 userId
+ */
+export async function queryReadReceipt(
+  messageId: string,
+  to: string,
+  account: ResolvedDingTalkAccount
+): Promise<OTOReadStatus> {
+  const existing = getDingTalkRuntimeState(account.accountId)?.readReceipts?.[messageId];
+  const status = await getOTOReadStatus(messageId, { account });
+  recordReadReceipt(account.accountId, messageId, {
+    to,
+    trackedAt: existing?.trackedAt ?? Date.now(),
+    checkedAt: Date.now(),
+    readUserIds: status.readUserIds,
+    unreadUserIds: status.unreadUserIds,
+    done: existing?.done ?? status.unreadUserIds.length === 0,
+    lastError: null,
+  });
+  return status;
+}
+
+/**
+ * 发送单聊主动消息后，在后台轮询已读状态（需开启 readReceipts.poll）
+ * 全部已读或超过最长等待时间后停止；群聊消息和没有 messageId 的发送结果直接忽略
+ */
+export function trackReadReceipt(
+  result: { messageId: string },
+  to: string,
+  account: ResolvedDingTalkAccount
+): void {
+  const { poll, intervalMs, maxWaitMs } = account.readReceipts;
+  const messageId = result.messageId;
+  if (!poll || !messageId || isGroupTarget(to) || pollTimers.has(messageId)) return;
+
+  const userId = extractTargetId(to);
+  const trackedAt = Date.now();
+  recordReadReceipt(account.accountId, messageId, {
+    to: userId,
+    trackedAt,
+    checkedAt: null,
+    readUserIds: [],
+    unreadUserIds: [userId],
+    done: false,
+  });
+
+  const finish = () => {
+    pollTimers.delete(messageId);
+    const current = getDingTalkRuntimeState(account.accountId)?.readReceipts?.[messageId];
+    if (current) {
+      recordReadReceipt(account.accountId, messageId, { ...current, done: true });
+    }
+  };
+
+  const check = async () => {
+    try {
+      const status = await queryReadReceipt(messageId, userId, account);
+      if (status.unreadUserIds.length === 0 && status.readUserIds.length > 0) {
+        logger.log(`[已读回执] 已读 | messageId: ${messageId} | ${status.readUserIds.join(",")}`);
+        finish();
+        return;
+      }
+    } catch (err) {
+      logger.warn(`[已读回执] 查询失败 | messageId: ${messageId} | ${String(err)}`);
+      const current = getDingTalkRuntimeState(account.accountId)?.readReceipts?.[messageId];
+      if (current) {
+        recordReadReceipt(account.accountId, messageId, { ...current, checkedAt: Date.now(), lastError: String(err) });
+      }
+    }
+
+    if (Date.now() - trackedAt + intervalMs > maxWaitMs) {
+      logger.log(`[已读回执] 超过最长等待时间，停止跟踪 | messageId: ${messageId}`);
+      finish();
+      return;
+    }
+    schedule();
+  };
+
+  const schedule = () => {
+    const timer = setTimeout(() => void check(), intervalMs);
+    // 不阻止进程退出
+    timer.unref?.();
+    pollTimers.set(messageId, timer);
+  };
+
+  schedule();
+}
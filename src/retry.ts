@@ -0,0 +1,132 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import { recordChannelRuntimeState, getDingTalkRuntimeState } from "./runtime-state.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/** 默认最多尝试次数（含首次请求） */
+const DEFAULT_MAX_ATTEMPTS = 3;
+/** 退避基准时长 */
+const BASE_DELAY_MS = 500;
+/** 单次退避上限 */
+const MAX_DELAY_MS = 8000;
+/** 触发限流时的最短等待时长（钉钉按秒统计 QPS） */
+const THROTTLE_MIN_DELAY_MS = 1000;
+
+/** 旧版 oapi 的限流错误码（QPS / 分钟调用量超限） */
+const THROTTLE_ERRCODES = new Set([88, 90002, 90005, 90006, 90018]);
+
+/** 旧版 oapi 的 access_token 失效错误码（不合法 / 已过期） */
+const AUTH_ERRCODES = new Set([40014, 42001]);
+
+/** 旧版 oapi 的应用缺少接口权限错误码 */
+const PERMISSION_ERRCODES = new Set([60011]);
+
+/**
+ * 钉钉 API 错误
+ * 保留 HTTP 状态码和钉钉错误码，用于判断是否可重试
+ */
+export class DingTalkApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP 状态码 */
+    readonly status?: number,
+    /** 钉钉错误码（新版 API 为字符串 code，旧版 oapi 为数字 errcode） */
+    readonly code?: string | number
+  ) {
+    super(message);
+    this.name = "DingTalkApiError";
+  }
+}
+
+/** 是否为限流错误（HTTP 429 或钉钉 QPS 限流错误码） */
+export function isThrottleError(err: unknown): boolean {
+  if (!(err instanceof DingTalkApiError)) return false;
+  if (err.status === 429) return true;
+  if (typeof err.code === "number") return THROTTLE_ERRCODES.has(err.code);
+  return typeof err.code === "string" && /QpsLimit|Throttl|RateLimit|FlowControl/i.test(err.code);
+}
+
+/** 是否为 access_token 失效（被吊销、过期或凭证已轮换），刷新 token 后可重试 */
+export function isAuthError(err: unknown): boolean {
+  if (!(err instanceof DingTalkApiError)) return false;
+  if (err.status === 401) return true;
+  if (typeof err.code === "number") return AUTH_ERRCODES.has(err.code);
+  return typeof err.code === "string" && /InvalidAuthentication|InvalidAccessToken|AccessTokenExpired/i.test(err.code);
+}
+
+/** 是否为应用缺少接口权限（开放平台未开通对应权限点） */
+export function isPermissionError(err: unknown): boolean {
+  if (!(err instanceof DingTalkApiError)) return false;
+  if (err.status === 403) return true;
+  if (typeof err.code === "number") return PERMISSION_ERRCODES.has(err.code);
+  return typeof err.code === "string" && /PermissionDenied|AccessDenied|Forbidden/i.test(err.code);
+}
+
+/** 是否为可重试的临时错误（限流、5xx、网络错误） */
+function isTransientError(err: unknown): boolean {
+  if (isThrottleError(err)) return true;
+  if (err instanceof DingTalkApiError) return (err.status ?? 0) >= 500;
+  // fetch 网络层错误（连接重置、DNS 失败等）
+  return err instanceof TypeError;
+}
+
+/** 指数退避 + 全抖动 */
+function computeDelay(attempt: number, throttled: boolean): number {
+  const cap = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  const delay = Math.random() * cap;
+  return throttled ? Math.max(THROTTLE_MIN_DELAY_MS, delay) : delay;
+}
+
+/** 记录重试次数和最近一次限流时间 */
+function recordRetry(accountId: string, throttled: boolean): void {
+  const current = getDingTalkRuntimeState(accountId);
+  recordChannelRuntimeState({
+    channel: PLUGIN_ID,
+    accountId,
+    state: {
+      retryCount: (current?.retryCount ?? 0) + 1,
+      ...(throttled ? { lastThrottleAt: Date.now() } : {}),
+    },
+  });
+}
+
+export interface RetryOptions {
+  /** 用于记录运行时状态的账户（文件下载等无账户场景可不传） */
+  account?: ResolvedDingTalkAccount;
+  /** 日志标签 */
+  label: string;
+  /**
+   * 重试范围：
+   * - transient：限流、5xx、网络错误都重试，仅用于幂等操作（获取 token、下载、上传、查询、按 key 更新）
+   * - throttle：只在限流时重试，用于非幂等操作（如主动发送），限流时请求未被处理，重试不会重复
+   */
+  retryOn?: "transient" | "throttle";
+  /** 最多尝试次数（含首次请求） */
+  maxAttempts?: number;
+}
+
+/**
+ * 按重试策略执行请求
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { account, label, retryOn = "transient", maxAttempts = DEFAULT_MAX_ATTEMPTS } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const throttled = isThrottleError(err);
+      const retryable = retryOn === "throttle" ? throttled : isTransientError(err);
+      if (!retryable || attempt >= maxAttempts) {
+        throw err;
+      }
+
+      const delay = computeDelay(attempt, throttled);
+      logger.warn(`[重试] ${label} 第 ${attempt} 次失败${throttled ? "（限流）" : ""}，${Math.round(delay)}ms 后重试: ${String(err)}`);
+      if (account) {
+        recordRetry(account.accountId, throttled);
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
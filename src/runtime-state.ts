@@ -0,0 +1,84 @@
+import type { DingRemindType } from "./types.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/**
+ * 已读回执状态（单聊主动消息）
+ */
+export interface ReadReceiptState {
+  /** 发送目标 userId */
+  to: string;
+  /** 开始跟踪时间 */
+  trackedAt: number;
+  /** 最近一次查询时间 */
+  checkedAt: number | null;
+  /** 已读用户 */
+  readUserIds: string[];
+  /** 未读用户 */
+  unreadUserIds: string[];
+  /** 是否已停止跟踪（全部已读或超过最长等待时间） */
+  done: boolean;
+  /** 最近一次查询失败原因 */
+  lastError?: string | null;
+}
+
+/**
+ * DING 提醒记录
+ */
+export interface DingState {
+  /** 接收人 userId */
+  userIds: string[];
+  type: DingRemindType;
+  /** 发起 DING 的用户（当前消息的发送者，定时任务等为 null） */
+  requesterId: string | null;
+  sentAt: number;
+  /** DING 消息 ID（发送失败时为 null） */
+  openDingId: string | null;
+  /** 发送失败原因 */
+  error?: string | null;
+}
+
+/**
+ * 账号运行时状态（内存）
+ */
+export interface DingTalkRuntimeState {
+  running: boolean;
+  lastStartAt: number | null;
+  lastStopAt: number | null;
+  lastError: string | null;
+  lastInboundAt?: number | null;
+  lastOutboundAt?: number | null;
+  /** API 调用累计重试次数 */
+  retryCount?: number;
+  /** 最近一次触发钉钉限流的时间 */
+  lastThrottleAt?: number | null;
+  /** 已读回执，按 messageId 索引 */
+  readReceipts?: Record<string, ReadReceiptState>;
+  /** 出站发送队列中等待发送的消息总数 */
+  queueDepth?: number;
+  /** 各会话排队中的消息数，按发送目标索引 */
+  queuedConversations?: Record<string, number>;
+  /** 最近的 DING 提醒，按 openDingId（失败时为 failed-<时间戳>）索引 */
+  dings?: Record<string, DingState>;
+}
+
+// Track runtime state in memory
+const runtimeState = new Map<string, DingTalkRuntimeState>();
+
+export function recordChannelRuntimeState(params: {
+  channel: string;
+  accountId: string;
+  state: Partial<DingTalkRuntimeState>;
+}): void {
+  const key = `${params.channel}:${params.accountId}`;
+  const existing = runtimeState.get(key) ?? {
+    running: false,
+    lastStartAt: null,
+    lastStopAt: null,
+    lastError: null,
+  };
+  runtimeState.set(key, { ...existing, ...params.state });
+}
+
+export function getDingTalkRuntimeState(accountId: string): DingTalkRuntimeState | undefined {
+  return runtimeState.get(`${PLUGIN_ID}:${accountId}`);
+}
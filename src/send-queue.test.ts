@@ -0,0 +1,85 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import type { OpenClawConfig } from "openclaw/plugin-sdk/core";
+import type { ResolvedDingTalkAccount } from "./types.js";
+import { resolveDingTalkAccount } from "./accounts.js";
+import { PLUGIN_ID } from "./constants.js";
+import { enqueueOutbound } from "./send-queue.js";
+
+function createAccount(accountId: string, perMinute: number): ResolvedDingTalkAccount {
+  const cfg: OpenClawConfig = {
+    channels: {
+      [PLUGIN_ID]: {
+        accounts: { [accountId]: { clientId: "test", clientSecret: "test", sendQueue: { perMinute } } },
+      },
+    },
+  };
+  return resolveDingTalkAccount({ cfg, accountId });
+}
+
+/** 让已就绪的 Promise 回调执行完 */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+test("逐条 await 的发送也按 perMinute 限速", async () => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"], now: 0 });
+  const account = createAccount("sequential", 3);
+  const sentAt: number[] = [];
+  const send = () =>
+    enqueueOutbound(account, "user1", {
+      run: async () => {
+        sentAt.push(Date.now());
+      },
+    });
+
+  for (let i = 0; i < 3; i++) {
+    await send();
+  }
+  const fourth = send();
+  await flush();
+  assert.deepEqual(sentAt, [0, 0, 0], "第 4 条应等待限速窗口");
+
+  mock.timers.tick(60_000);
+  await fourth;
+  assert.deepEqual(sentAt, [0, 0, 0, 60_000]);
+});
+
+test("限速窗口过后回收会话状态，不再等待", async () => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"], now: 0 });
+  const account = createAccount("evict", 1);
+  const sentAt: number[] = [];
+  const send = () =>
+    enqueueOutbound(account, "user1", {
+      run: async () => {
+        sentAt.push(Date.now());
+      },
+    });
+
+  await send();
+  mock.timers.tick(60_000);
+  await send();
+  assert.deepEqual(sentAt, [0, 60_000]);
+});
+
+test("排队期间相邻文本合并为一条", async () => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"], now: 0 });
+  const account = createAccount("merge", 20);
+  const sent: string[] = [];
+  const blocker = enqueueOutbound(account, "chat:c1", { run: async () => undefined });
+  const chunks = ["a", "b", "c"].map((text) =>
+    enqueueOutbound(account, "chat:c1", {
+      merge: {
+        mergeKey: "md",
+        text,
+        send: async (merged) => {
+          sent.push(merged);
+        },
+      },
+    })
+  );
+  await Promise.all([blocker, ...chunks]);
+  assert.deepEqual(sent, ["a\n\nb\n\nc"]);
+});
@@ -0,0 +1,181 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import { recordChannelRuntimeState } from "./runtime-state.js";
+import { logger } from "./logger.js";
+import { PLUGIN_ID } from "./constants.js";
+
+/** 限速统计窗口 */
+const RATE_WINDOW_MS = 60 * 1000;
+
+/** 合并后的文本长度上限（与 outbound.textChunkLimit 一致） */
+const MERGE_TEXT_LIMIT = 4000;
+
+/** 合并相邻文本时使用的分隔符 */
+const MERGE_SEPARATOR = "\n\n";
+
+/**
+ * 可合并的文本发送
+ * 排队期间，同一会话中相邻且 mergeKey 相同的文本会合并为一条发送
+ */
+export interface MergeableText<T> {
+  /** 合并分组（如发送通道 + 消息类型），不同分组之间不合并 */
+  mergeKey: string;
+  text: string;
+  send: (text: string) => Promise<T>;
+}
+
+interface QueueItem {
+  run?: () => Promise<unknown>;
+  merge?: MergeableText<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface ConversationQueue {
+  items: QueueItem[];
+  /** 最近一个窗口内的发送时间 */
+  sentAt: number[];
+  running: boolean;
+  /** 队列清空后的回收定时器 */
+  evictTimer?: ReturnType<typeof setTimeout>;
+}
+
+/** `${accountId}|${to}` -> 会话发送队列 */
+const queues = new Map<string, ConversationQueue>();
+
+/** 将账号的队列深度写入运行时状态 */
+function recordQueueDepth(accountId: string): void {
+  const prefix = `${accountId}|`;
+  const conversations: Record<string, number> = {};
+  let total = 0;
+  for (const [key, queue] of queues) {
+    if (!key.startsWith(prefix) || queue.items.length === 0) continue;
+    conversations[key.slice(prefix.length)] = queue.items.length;
+    total += queue.items.length;
+  }
+  recordChannelRuntimeState({
+    channel: PLUGIN_ID,
+    accountId,
+    state: { queueDepth: total, queuedConversations: conversations },
+  });
+}
+
+/**
+ * 队列清空后，等最近一次发送移出限速窗口再回收会话状态
+ * 提前回收会丢失 sentAt，逐条 await 的发送（不会排队）就不再受限速约束
+ */
+function scheduleEviction(key: string, queue: ConversationQueue): void {
+  clearTimeout(queue.evictTimer);
+  const newest = queue.sentAt[queue.sentAt.length - 1] ?? 0;
+  const delay = newest + RATE_WINDOW_MS - Date.now();
+  if (delay <= 0) {
+    if (queues.get(key) === queue) queues.delete(key);
+    return;
+  }
+  queue.evictTimer = setTimeout(() => {
+    queue.evictTimer = undefined;
+    if (!queue.running && queue.items.length === 0) scheduleEviction(key, queue);
+  }, delay);
+  queue.evictTimer.unref?.();
+}
+
+/** 距离下一个可用发送名额的等待时长 */
+function waitForSlot(queue: ConversationQueue, perMinute: number): number {
+  const now = Date.now();
+  while (queue.sentAt.length > 0 && now - queue.sentAt[0] >= RATE_WINDOW_MS) {
+    queue.sentAt.shift();
+  }
+  if (queue.sentAt.length < perMinute) return 0;
+  return queue.sentAt[0] + RATE_WINDOW_MS - now;
+}
+
+/** 从队首取出一批待发送项：可合并的文本会与后续相邻的同组文本合并 */
+function takeBatch(queue: ConversationQueue, mergeChunks: boolean): QueueItem[] {
+  const head = queue.items.shift()!;
+  const batch = [head];
+  if (!mergeChunks || !head.merge) return batch;
+
+  let length = head.merge.text.length;
+  while (queue.items.length > 0) {
+    const next = queue.items[0].merge;
+    if (!next || next.mergeKey !== head.merge.mergeKey) break;
+    if (length + MERGE_SEPARATOR.length + next.text.length > MERGE_TEXT_LIMIT) break;
+    length += MERGE_SEPARATOR.length + next.text.length;
+    batch.push(queue.items.shift()!);
+  }
+  return batch;
+}
+
+async function drain(key: string, queue: ConversationQueue, account: ResolvedDingTalkAccount): Promise<void> {
+  const { perMinute, mergeChunks } = account.sendQueue;
+  queue.running = true;
+  try {
+    while (queue.items.length > 0) {
+      const delay = waitForSlot(queue, perMinute);
+      if (delay > 0) {
+        logger.log(`[发送队列] 达到 ${perMinute} 条/分钟上限，等待 ${Math.ceil(delay / 1000)}s | ${key} | 排队: ${queue.items.length}`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        continue;
+      }
+
+      const batch = takeBatch(queue, mergeChunks);
+      recordQueueDepth(account.accountId);
+      queue.sentAt.push(Date.now());
+
+      const head = batch[0];
+      try {
+        const result = head.merge
+          ? await head.merge.send(batch.map((item) => item.merge!.text).join(MERGE_SEPARATOR))
+          : await head.run!();
+        if (batch.length > 1) {
+          logger.log(`[发送队列] 合并 ${batch.length} 段文本为一条消息 | ${key}`);
+        }
+        for (const item of batch) item.resolve(result);
+      } catch (err) {
+        for (const item of batch) item.reject(err);
+      }
+    }
+  } finally {
+    queue.running = false;
+    scheduleEviction(key, queue);
+    recordQueueDepth(account.accountId);
+  }
+}
+
+/**
+ * 加入出站发送队列
+ *
+ * - 按 账号 + 会话 排队，同一会话严格按入队顺序发送，不同会话互不阻塞
+ * - 每个会话按 sendQueue.perMinute 限速（钉钉群机器人约 20 条/分钟）
+ * - 排队期间相邻的小段文本合并发送（sendQueue.mergeChunks）
+ *
+ * @param to - 发送目标（chat:<openConversationId> 或 userId）
+ */
+export function enqueueOutbound<T>(
+  account: ResolvedDingTalkAccount,
+  to: string,
+  task: { run: () => Promise<T> } | { merge: MergeableText<T> }
+): Promise<T> {
+  const key = `${account.accountId}|${to}`;
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = { items: [], sentAt: [], running: false };
+    queues.set(key, queue);
+  }
+
+  const promise = new Promise<T>((resolve, reject) => {
+    queue.items.push({
+      run: "run" in task ? task.run : undefined,
+      merge: "merge" in task ? (task.merge as MergeableText<unknown>) : undefined,
+      resolve: resolve as (value: unknown) => void,
+      reject,
+    });
+  });
+  recordQueueDepth(account.accountId);
+
+  if (!queue.running) {
+    clearTimeout(queue.evictTimer);
+    queue.evictTimer = undefined;
+    void drain(key, queue, account);
+  }
+  return promise;
+}
@@ -0,0 +1,168 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import { getUserDetail, getDepartmentName, listUserDepartmentChains, isUserNotFoundError } from "./client.js";
+import { isAuthError, isPermissionError } from "./retry.js";
+import { logger } from "./logger.js";
+
+/**
+ * 发送者资料补充
+ *
+ * 开启 senderProfile 后，收到消息时从通讯录读取发送者的部门、职位、工号和直属主管，
+ * 写入入站上下文，让 Agent（和系统提示词）知道对方的角色。
+ * 资料按账号缓存；获取失败时不补充，也不影响消息处理。缺少通讯录权限或凭证失效时整个账号暂停查询，
+ * 用户不存在时按缓存时长记住失败，其他错误只在短时间内不再查询该用户。
+ */
+
+/** 发送者资料 */
+export interface SenderProfile {
+  /** 部门路径（如 研发中心/平台部），属于多个部门时各一条 */
+  departments: string[];
+  /** 职位 */
+  title?: string;
+  /** 工号 */
+  jobNumber?: string;
+  /** 直属主管用户 ID */
+  managerUserId?: string;
+  /** 直属主管姓名 */
+  managerName?: string;
+  /** 是否为企业管理员 */
+  isAdmin?: boolean;
+}
+
+/** 等待资料的最长时间，超时后本条消息不补充（查询继续进行，结果写入缓存） */
+const PROFILE_WAIT_MS = 3000;
+
+/** 临时失败（网络错误、5xx 等）后不再查询该用户的时长 */
+const PROFILE_RETRY_AFTER_MS = 60 * 1000;
+
+/** 根部门 ID（部门路径中省略） */
+const ROOT_DEPT_ID = 1;
+
+/** `${accountId}|${userId}` -> 资料（获取失败时为 null） */
+const profileCache = new Map<string, { profile: SenderProfile | null; expiresAt: number }>();
+
+/** 进行中的查询 */
+const pendingProfiles = new Map<string, Promise<SenderProfile | null>>();
+
+/** `${accountId}|${deptId}` -> 部门名称 */
+const departmentNames = new Map<string, { name: Promise<string>; expiresAt: number }>();
+
+/** accountId -> 暂停查询的截止时间（缺少权限或凭证失效后按缓存时长暂停，避免每条消息都请求） */
+const suspendedAccounts = new Map<string, number>();
+
+function getCachedDepartmentName(deptId: number, account: ResolvedDingTalkAccount): Promise<string> {
+  const key = `${account.accountId}|${deptId}`;
+  const cached = departmentNames.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.name;
+
+  const name = getDepartmentName(deptId, account);
+  departmentNames.set(key, { name, expiresAt: Date.now() + account.senderProfile.ttlMs });
+  name.catch(() => departmentNames.delete(key));
+  return name;
+}
+
+/** 部门路径（从根部门往下，省略根部门） */
+async function resolveDepartmentPaths(userId: string, account: ResolvedDingTalkAccount): Promise<string[]> {
+  const chains = await listUserDepartmentChains(userId, account);
+  return Promise.all(
+    chains.map(async (chain) => {
+      const ids = [...chain].reverse().filter((id) => id !== ROOT_DEPT_ID);
+      const names = await Promise.all(ids.map((id) => getCachedDepartmentName(id, account)));
+      return names.join("/");
+    })
+  ).then((paths) => paths.filter(Boolean));
+}
+
+async function fetchSenderProfile(userId: string, account: ResolvedDingTalkAccount): Promise<SenderProfile> {
+  const user = await getUserDetail(userId, account);
+
+  // 部门和主管只是补充信息，单独失败时省略
+  const [departments, managerName] = await Promise.all([
+    resolveDepartmentPaths(userId, account).catch(() => []),
+    user.managerUserId
+      ? getUserDetail(user.managerUserId, account).then((manager) => manager.name || undefined, () => undefined)
+      : Promise.resolve(undefined),
+  ]);
+
+  return {
+    departments,
+    title: user.title,
+    jobNumber: user.jobNumber,
+    managerUserId: user.managerUserId,
+    managerName,
+    isAdmin: user.isAdmin,
+  };
+}
+
+/**
+ * 获取发送者资料（未开启、获取失败或超时时返回 null）
+ */
+export async function getSenderProfile(
+  userId: string,
+  account: ResolvedDingTalkAccount
+): Promise<SenderProfile | null> {
+  if (!account.senderProfile.enabled || !userId) return null;
+  if ((suspendedAccounts.get(account.accountId) ?? 0) > Date.now()) return null;
+
+  const key = `${account.accountId}|${userId}`;
+  const cached = profileCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.profile;
+
+  let pending = pendingProfiles.get(key);
+  if (!pending) {
+    pending = fetchSenderProfile(userId, account)
+      .then((profile) => {
+        profileCache.set(key, { profile, expiresAt: Date.now() + account.senderProfile.ttlMs });
+        return profile;
+      })
+      .catch((err) => {
+        // 缺少通讯录权限或凭证失效时整个账号暂停查询，只记录一次
+        if (isPermissionError(err) || isAuthError(err)) {
+          suspendedAccounts.set(account.accountId, Date.now() + account.senderProfile.ttlMs);
+          logger.log(`[发送者资料] 获取失败，暂停补充 | accountId: ${account.accountId} | ${String(err)}`);
+          return null;
+        }
+        // 用户不存在时按缓存时长记住；临时失败只在短时间内不再查询，避免一次故障影响整个缓存周期
+        const ttlMs = isUserNotFoundError(err) ? account.senderProfile.ttlMs : PROFILE_RETRY_AFTER_MS;
+        profileCache.set(key, { profile: null, expiresAt: Date.now() + ttlMs });
+        logger.log(`[发送者资料] 获取失败 | userId: ${userId} | ${String(err)}`);
+        return null;
+      })
+      .finally(() => pendingProfiles.delete(key));
+    pendingProfiles.set(key, pending);
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), PROFILE_WAIT_MS);
+  });
+  try {
+    return await Promise.race([pending, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 发送者资料对应的入站上下文字段
+ * 除结构化字段外，同时以一行文字放入 UntrustedContext，供 Agent 直接阅读
+ */
+export function buildSenderProfileContext(profile: SenderProfile): Record<string, unknown> {
+  const manager = profile.managerName ?? profile.managerUserId;
+  const summary = [
+    profile.departments.length > 0 ? `部门: ${profile.departments.join("；")}` : "",
+    profile.title ? `职位: ${profile.title}` : "",
+    profile.jobNumber ? `工号: ${profile.jobNumber}` : "",
+    manager ? `直属主管: ${manager}` : "",
+    profile.isAdmin ? "企业管理员" : "",
+  ].filter(Boolean);
+
+  return {
+    SenderDepartment: profile.departments.join("；") || undefined,
+    SenderTitle: profile.title,
+    SenderEmployeeNo: profile.jobNumber,
+    SenderManager: profile.managerName,
+    SenderManagerId: profile.managerUserId,
+    SenderIsAdmin: profile.isAdmin,
+    ...(summary.length > 0 ? { UntrustedContext: [`发送者资料（钉钉通讯录）: ${summary.join(" | ")}`] } : {}),
+  };
+}
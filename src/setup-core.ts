@@ -12,6 +12,7 @@ import {
   resolveDingTalkAccount,
 } from "./accounts.js";
 import { PLUGIN_ID } from "./constants.js";
+import { parseDirectoryQuery, resolveDirectoryEntries } from "./directory.js";
 
 const channel = PLUGIN_ID;
 
@@ -24,11 +25,15 @@ export const DINGTALK_CREDENTIAL_HELP_LINES = [
 ];
 
 export const DINGTALK_ALLOWFROM_HELP_LINES = [
-  "Add DingTalk user IDs that are allowed to interact with the bot.",
+  "Add DingTalk users that are allowed to interact with the bot.",
   "You can find user IDs in DingTalk admin panel or from bot message logs.",
+  "With app credentials configured, you can also look users up in the directory",
+  "by mobile:, email: or name: (requires contact read permissions).",
   "Examples:",
   "- userId123",
-  "- manager456",
+  "- mobile:13800138000",
+  "- email:zhangsan@example.com",
+  "- name:张三",
   "Multiple entries: comma-separated.",
   `Docs: ${formatDocsLink(`/channels/${PLUGIN_ID}`, PLUGIN_ID)}`,
 ];
@@ -48,14 +53,39 @@ export function parseDingTalkAllowFromId(raw: string): string | null {
 
 /**
  * 钉钉 allowFrom 条目解析
- * 钉钉没有 API 来通过用户名查找用户 ID，所以直接使用 parseId 结果
+ * 用户 ID 直接使用 parseId 结果；mobile: / email: / name: 通过通讯录查找用户 ID
+ * 未解析的条目在 input 中附上原因（同名时列出候选人），向导会原样展示
  */
 export async function resolveDingTalkAllowFromEntries(params: {
+  cfg: OpenClawConfig;
+  accountId?: string;
+  credentialValues?: Partial<Record<string, string>>;
   entries: string[];
 }) {
+  const resolved = resolveDingTalkAccount({
+    cfg: params.cfg,
+    accountId: params.accountId ?? resolveDefaultDingTalkAccountId(params.cfg),
+  });
+  // 向导中刚输入的凭据可能还没有写入配置
+  const account = {
+    ...resolved,
+    clientId: params.credentialValues?.token?.trim() || resolved.clientId,
+    clientSecret: params.credentialValues?.privateKey?.trim() || resolved.clientSecret,
+  };
+
+  const lookups = await resolveDirectoryEntries(
+    account,
+    params.entries.filter((entry) => parseDirectoryQuery(entry))
+  );
   return params.entries.map((entry) => {
-    const id = parseDingTalkAllowFromId(entry);
-    return { input: entry, resolved: Boolean(id), id };
+    if (!parseDirectoryQuery(entry)) {
+      const id = parseDingTalkAllowFromId(entry);
+      return { input: entry, resolved: Boolean(id), id };
+    }
+    const lookup = lookups.find((item) => item.input === entry)!;
+    return lookup.resolved
+      ? { input: entry, resolved: true, id: lookup.id }
+      : { input: `${entry}（${lookup.note}）`, resolved: false, id: null };
   });
 }
 
@@ -80,28 +110,49 @@ export async function promptDingTalkAllowFromForAccount(params: {
 
   // 读取现有 allowFrom
   const existing = resolved.allowFrom ?? [];
+  const canLookup = Boolean(resolved.clientId && resolved.clientSecret);
 
-  // 提示输入
-  const entry = await params.prompter.text({
-    message: "DingTalk allowFrom (user IDs)",
-    placeholder: "userId1, userId2",
-    initialValue: existing[0] ? String(existing[0]) : undefined,
-    validate: (value: string) =>
-      String(value ?? "").trim() ? undefined : "Required",
-  });
+  while (true) {
+    // 提示输入
+    const entry = await params.prompter.text({
+      message: "DingTalk allowFrom (user IDs, mobile:, email: or name:)",
+      placeholder: "userId1, mobile:13800138000, name:张三",
+      initialValue: existing[0] ? String(existing[0]) : undefined,
+      validate: (value: string) =>
+        String(value ?? "").trim() ? undefined : "Required",
+    });
 
-  const parts = splitSetupEntries(String(entry));
-  const ids = parts
-    .map(parseDingTalkAllowFromId)
-    .filter(Boolean) as string[];
-  const unique = [...new Set([...existing.map(String), ...ids])];
+    const parts = splitSetupEntries(String(entry));
+    const results = canLookup
+      ? await resolveDingTalkAllowFromEntries({ cfg: params.cfg, accountId, entries: parts })
+      : parts.map((part) => {
+          const id = parseDingTalkAllowFromId(part);
+          return { input: part, resolved: Boolean(id), id };
+        });
 
-  return applySetupAccountConfigPatch({
-    cfg: params.cfg,
-    channelKey: channel,
-    accountId,
-    patch: { allowFrom: unique },
-  });
+    // 有未解析（未找到、同名或格式错误）的条目时提示后重新输入
+    const unresolved = results.filter((result) => !result.resolved || !result.id);
+    if (unresolved.length > 0) {
+      await params.prompter.note(
+        [
+          `Could not resolve: ${unresolved.map((result) => result.input).join(", ")}`,
+          ...(canLookup ? [] : ["Directory lookup (mobile:/email:/name:) needs app credentials; enter user IDs instead."]),
+        ].join("\n"),
+        "DingTalk user id",
+      );
+      continue;
+    }
+
+    const ids = results.map((result) => result.id!);
+    const unique = [...new Set([...existing.map(String), ...ids])];
+
+    return applySetupAccountConfigPatch({
+      cfg: params.cfg,
+      channelKey: channel,
+      accountId,
+      patch: { allowFrom: unique },
+    });
+  }
 }
 
 /**
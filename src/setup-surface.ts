@@ -141,14 +141,14 @@ export const dingtalkSetupWizard: ChannelSetupWizard = {
   allowFrom: createAllowFromSection({
     helpTitle: "DingTalk user id",
     helpLines: DINGTALK_ALLOWFROM_HELP_LINES,
-    message: "DingTalk allowFrom (user IDs)",
-    placeholder: "userId1, userId2",
+    message: "DingTalk allowFrom (user IDs, mobile:, email: or name:)",
+    placeholder: "userId1, mobile:13800138000, name:张三",
     invalidWithoutCredentialNote:
-      "Please enter valid DingTalk user IDs (alphanumeric format).",
+      "Please enter valid DingTalk user IDs (alphanumeric format). Directory lookup (mobile:/email:/name:) needs app credentials.",
     parseInputs: splitSetupEntries,
     parseId: parseDingTalkAllowFromId,
-    resolveEntries: async ({ entries }) =>
-      resolveDingTalkAllowFromEntries({ entries }),
+    resolveEntries: async ({ cfg, accountId, credentialValues, entries }) =>
+      resolveDingTalkAllowFromEntries({ cfg, accountId, credentialValues, entries }),
     apply: async ({ cfg, accountId, allowFrom }) =>
       applySetupAccountConfigPatch({
         cfg,
@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseDueTime } from "./todo.js";
+
+test("不带时区的截止时间按 todo.timeZone 解析", () => {
+  assert.equal(parseDueTime("2026-05-01 18:00", "Asia/Shanghai"), Date.parse("2026-05-01T18:00:00+08:00"));
+  assert.equal(parseDueTime("2026-05-01T09:30:15", "Asia/Shanghai"), Date.parse("2026-05-01T09:30:15+08:00"));
+  assert.equal(parseDueTime("2026-05-01", "Asia/Shanghai"), Date.parse("2026-05-01T18:00:00+08:00"));
+});
+
+test("夏令时时区按当天的偏移解析", () => {
+  assert.equal(parseDueTime("2026-01-15 09:00", "America/New_York"), Date.parse("2026-01-15T09:00:00-05:00"));
+  assert.equal(parseDueTime("2026-07-15 09:00", "America/New_York"), Date.parse("2026-07-15T09:00:00-04:00"));
+});
+
+test("带时区的时间和时间戳不受 timeZone 影响", () => {
+  assert.equal(parseDueTime("2026-05-01T18:00+09:00", "Asia/Shanghai"), Date.parse("2026-05-01T18:00:00+09:00"));
+  assert.equal(parseDueTime("2026-05-01 10:00Z", "Asia/Shanghai"), Date.parse("2026-05-01T10:00:00Z"));
+  assert.equal(parseDueTime("1777629600", "Asia/Shanghai"), 1777629600000);
+});
+
+test("无法解析或不带时区的其他写法抛出错误", () => {
+  assert.throws(() => parseDueTime("2026-02-30", "Asia/Shanghai"), /Invalid due date/);
+  assert.throws(() => parseDueTime("May 1 2026", "Asia/Shanghai"), /Invalid due date/);
+});
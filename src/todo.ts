@@ -0,0 +1,158 @@
+import type { ResolvedDingTalkAccount } from "./types.js";
+import type { TodoPriority } from "./client.js";
+
+/**
+ * 待办操作的参数解析
+ *
+ * 截止时间和优先级接受 Agent 常用的写法；执行人的解析见 directory.ts 的 resolvePersonId。
+ */
+
+/** 最多记录的待办数（超出时淘汰最早的记录） */
+const MAX_TODO_RECORDS = 500;
+
+/** 截止时间只有日期时默认的时刻（时） */
+const DATE_ONLY_DUE_HOUR = 18;
+
+/** 不带时区的日期时间：YYYY-MM-DD、YYYY-MM-DD HH:mm[:ss] 或 YYYY-MM-DDTHH:mm[:ss] */
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+
+/** 带时区的时间（Z 或 ±HH:mm 结尾） */
+const ZONED_TIME_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+/** 优先级写法 */
+const PRIORITY_ALIASES: Record<string, TodoPriority> = {
+  low: "low",
+  较低: "low",
+  低: "low",
+  normal: "normal",
+  普通: "normal",
+  中: "normal",
+  high: "high",
+  紧急: "high",
+  高: "high",
+  urgent: "urgent",
+  非常紧急: "urgent",
+};
+
+/** 已创建的待办（更新时以创建人的身份调用，并只允许创建人和执行人修改） */
+export interface TodoRecord {
+  accountId: string;
+  creatorUserId: string;
+  executorUserIds: string[];
+}
+
+/** taskId -> 待办记录 */
+const todoRecords = new Map<string, TodoRecord>();
+
+/** 记录已创建（或更新了执行人）的待办 */
+export function rememberTodoTask(taskId: string, record: TodoRecord): void {
+  todoRecords.delete(taskId);
+  todoRecords.set(taskId, record);
+  if (todoRecords.size > MAX_TODO_RECORDS) {
+    todoRecords.delete(todoRecords.keys().next().value!);
+  }
+}
+
+/** 查找本账号创建的待办记录 */
+export function getTodoRecord(taskId: string, accountId: string): TodoRecord | undefined {
+  const record = todoRecords.get(taskId);
+  return record?.accountId === accountId ? record : undefined;
+}
+
+/** 某一时刻在指定时区相对 UTC 的偏移（毫秒） */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(time);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const local = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * 指定时区的本地时间对应的毫秒时间戳
+ * @param timeZone - IANA 时区名，无效时抛出错误
+ */
+export function zonedTimeToEpoch(
+  local: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string
+): number {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour ?? 0, local.minute ?? 0, local.second ?? 0);
+  // 先按本地时间的偏移估算，夏令时切换附近再用估算结果的偏移修正一次
+  const guess = wall - getTimeZoneOffset(wall, timeZone);
+  return wall - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * 解析不带时区的日期时间（按 timeZone 解释）
+ * @returns 不是该格式时返回 undefined
+ */
+export function parseLocalDateTime(
+  text: string,
+  timeZone: string,
+  dateOnlyHour: number
+): { time: number; dateOnly: boolean } | undefined {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(text);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  const dateOnly = hour === undefined;
+  const local = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: dateOnly ? dateOnlyHour : Number(hour),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+  };
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day));
+  if (date.getUTCMonth() !== local.month - 1 || date.getUTCDate() !== local.day || local.hour > 23 || local.minute > 59 || local.second > 59) {
+    return undefined;
+  }
+  return { time: zonedTimeToEpoch(local, timeZone), dateOnly };
+}
+
+/**
+ * 解析截止时间
+ * 支持毫秒/秒时间戳、ISO 8601 和 `YYYY-MM-DD HH:mm`；只有日期时按当天 18:00
+ * @param timeZone - 不带时区的时间按该时区解析（todo.timeZone）
+ * @returns 毫秒时间戳，无法解析时抛出错误
+ */
+export function parseDueTime(raw: string | number, timeZone: string): number {
+  if (typeof raw === "number" || /^\d{10,13}$/.test(raw.trim())) {
+    const value = Number(raw);
+    return value < 1e12 ? value * 1000 : value;
+  }
+  const text = raw.trim();
+  const local = parseLocalDateTime(text, timeZone, DATE_ONLY_DUE_HOUR);
+  if (local) return local.time;
+  // 其他写法必须带时区，避免按服务器时区解析
+  const time = ZONED_TIME_PATTERN.test(text) ? new Date(text.replace(/^(\d{4}-\d{1,2}-\d{1,2})\s+/, "$1T")).getTime() : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid due date: ${raw} (use ISO 8601 such as 2026-05-01T18:00+08:00).`);
+  }
+  return time;
+}
+
+/**
+ * 解析优先级
+ * @returns 无法识别时抛出错误
+ */
+export function parseTodoPriority(raw: string): TodoPriority {
+  const priority = PRIORITY_ALIASES[raw.trim().toLowerCase()];
+  if (!priority) {
+    throw new Error(`Invalid priority: ${raw} (use low, normal, high or urgent).`);
+  }
+  return priority;
+}
+
+/** 回到群聊的链接 */
+export function buildChatLink(account: ResolvedDingTalkAccount, openConversationId: string): string {
+  return account.todo.chatLinkTemplate.replace(/\{openConversationId\}/g, encodeURIComponent(openConversationId));
+}
@@ -0,0 +1,71 @@
+/**
+ * 钉钉 HTTP 传输层
+ *
+ * 插件对钉钉的所有 HTTP 调用（新版 API、旧版 oapi、sessionWebhook 回复、文件下载、钉盘分片上传）都经过这里，
+ * 便于替换底层实现（如本地模拟服务、代理）以及挂载请求/响应钩子（如日志、指标、鉴权注入）。
+ */
+
+/** 请求来源 */
+export type DingTalkRequestKind = "api" | "oapi" | "webhook" | "download" | "upload";
+
+/** 传输层请求 */
+export interface DingTalkRequest {
+  kind: DingTalkRequestKind;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit;
+}
+
+/** 底层请求实现，默认使用全局 fetch */
+export type DingTalkFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/** 请求/响应钩子 */
+export interface DingTalkTransportHooks {
+  /** 发送前调用，可返回新的请求对象替换原请求 */
+  onRequest?: (request: DingTalkRequest) => DingTalkRequest | void | Promise<DingTalkRequest | void>;
+  /** 收到响应后调用（响应体尚未读取，需要读取时请使用 response.clone()） */
+  onResponse?: (response: Response, request: DingTalkRequest) => void | Promise<void>;
+}
+
+let transportFetch: DingTalkFetch = (url, init) => fetch(url, init);
+const transportHooks: DingTalkTransportHooks[] = [];
+
+/**
+ * 替换底层请求实现
+ * @param fetchImpl - 不传则恢复为全局 fetch
+ */
+export function setDingTalkTransport(fetchImpl?: DingTalkFetch): void {
+  transportFetch = fetchImpl ?? ((url, init) => fetch(url, init));
+}
+
+/**
+ * 注册请求/响应钩子，按注册顺序执行
+ * @returns 注销函数
+ */
+export function addDingTalkTransportHooks(hooks: DingTalkTransportHooks): () => void {
+  transportHooks.push(hooks);
+  return () => {
+    const index = transportHooks.indexOf(hooks);
+    if (index >= 0) transportHooks.splice(index, 1);
+  };
+}
+
+/** 通过传输层发送请求 */
+export async function dingtalkFetch(request: DingTalkRequest): Promise<Response> {
+  let current = request;
+  for (const hooks of transportHooks) {
+    current = (await hooks.onRequest?.(current)) ?? current;
+  }
+
+  const response = await transportFetch(current.url, {
+    method: current.method,
+    headers: current.headers,
+    body: current.body,
+  });
+
+  for (const hooks of transportHooks) {
+    await hooks.onResponse?.(response, current);
+  }
+  return response;
+}
@@ -5,6 +5,15 @@ import { z } from "zod";
 /** 群聊策略 */
 export type DingTalkGroupPolicy = "open" | "allowlist" | "disabled";
 
+/** 回复模式：markdown=逐段发送 Markdown 消息, card=AI 卡片流式更新 */
+export type DingTalkReplyMode = "markdown" | "card";
+
+/** 图片发送方式：mediaId=引用上传的 mediaId, markdown=Markdown 嵌入公网 URL, proxy=网关签名链接 */
+export type DingTalkImageDelivery = "mediaId" | "markdown" | "proxy";
+
+/** DING 提醒方式：app=应用内, sms=短信, call=电话 */
+export type DingRemindType = "app" | "sms" | "call";
+
 /** 单个群组的独立配置 Schema */
 export const DingTalkGroupConfigSchema = z.object({
   /** 工具策略 */
@@ -18,6 +27,12 @@ export const DingTalkGroupConfigSchema = z.object({
   allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
   /** 群级系统提示词 */
   systemPrompt: z.string().optional(),
+  /** 群级回复模式，覆盖账户级 replyMode */
+  replyMode: z.enum(["markdown", "card"]).optional(),
+  /** 回复时是否 @ 提问者，覆盖账户级 atSender */
+  atSender: z.boolean().optional(),
+  /** 是否允许回复 @所有人，覆盖账户级 allowAtAll */
+  allowAtAll: z.boolean().optional(),
 }).strict();
 
 export type DingTalkGroupConfig = z.infer<typeof DingTalkGroupConfigSchema>;
@@ -35,6 +50,10 @@ export const DingTalkAccountConfigSchema = z.object({
   clientId: z.string().optional(),
   /** 钉钉应用 AppSecret */
   clientSecret: z.string().optional(),
+  /** 新版 API 地址，默认 https://api.dingtalk.com（专属钉钉等私有部署时修改） */
+  apiBaseUrl: z.string().optional(),
+  /** 旧版 oapi 地址（媒体上传等），默认 https://oapi.dingtalk.com */
+  oapiBaseUrl: z.string().optional(),
   /** 允许的发送者白名单（单聊），默认 ["*"] 允许所有人 */
   allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
   /** 群聊策略：open=允许所有群, allowlist=白名单, disabled=禁止群聊 */
@@ -43,10 +62,129 @@ export const DingTalkAccountConfigSchema = z.object({
   groupAllowFrom: z.array(z.union([z.string(), z.number()])).optional(),
   /** 按群 ID 的独立配置 */
   groups: z.record(z.string(), DingTalkGroupConfigSchema).optional(),
+  /** 回复模式：markdown=逐段发送 Markdown 消息（默认）, card=AI 卡片流式更新 */
+  replyMode: z.enum(["markdown", "card"]).optional(),
+  /** 群聊回复时 @ 提问者，默认开启 */
+  atSender: z.boolean().optional(),
+  /** 允许群聊回复中的 @所有人 生效，默认关闭（Agent 输出的 @所有人 按普通文本发送） */
+  allowAtAll: z.boolean().optional(),
+  /** AI 卡片模板 ID，replyMode=card 时使用，默认使用钉钉官方 AI 卡片模板 */
+  cardTemplateId: z.string().optional(),
+  /** 互动卡片模板 ID，配置后带按钮的回复以互动卡片发送，按钮点击会回传给 Agent */
+  interactiveCardTemplateId: z.string().optional(),
+  /** 单聊主动消息已读回执跟踪 */
+  readReceipts: z.object({
+    /** 发送后在后台轮询已读状态，默认关闭 */
+    poll: z.boolean().optional(),
+    /** 轮询间隔（秒），默认 60 */
+    intervalSeconds: z.number().int().positive().optional(),
+    /** 最长跟踪时间（分钟），超过后停止轮询，默认 60 */
+    maxWaitMinutes: z.number().positive().optional(),
+  }).optional(),
+  /** 发送图片前的处理 */
+  images: z.object({
+    /** 转换钉钉不支持的格式、压缩超出大小上限的图片，默认开启；关闭后原样上传 */
+    normalize: z.boolean().optional(),
+    /** 转换或压缩时的最大边长（像素），默认 4096 */
+    maxSide: z.number().int().positive().optional(),
+    /** 图片大小上限（MB），超出时压缩，默认 20（钉钉上限） */
+    maxSizeMB: z.number().positive().max(20).optional(),
+    /** 去除 EXIF 中的位置信息，默认开启 */
+    stripLocation: z.boolean().optional(),
+    /**
+     * 图片发送方式（消息中都不会出现 access_token）：
+     * - mediaId：图片消息直接引用上传得到的 mediaId（默认）
+     * - markdown：以 Markdown 图片嵌入原始的公网 URL，本地图片使用 mediaId
+     * - proxy：由网关提供带签名和有效期的图片链接，需要配置 proxyBaseUrl
+     */
+    delivery: z.enum(["mediaId", "markdown", "proxy"]).optional(),
+    /** 网关对外可访问的地址（如 https://openclaw.example.com），delivery=proxy 时使用 */
+    proxyBaseUrl: z.string().optional(),
+    /** 代理链接有效期（小时），默认 168（7 天） */
+    proxyTtlHours: z.number().positive().optional(),
+  }).optional(),
+  /** 出站发送队列（按会话排队限速） */
+  sendQueue: z.object({
+    /** 每个会话每分钟最多发送的消息数，默认 20（钉钉群机器人限制） */
+    perMinute: z.number().int().positive().optional(),
+    /** 排队期间合并相邻的小段文本，默认开启 */
+    mergeChunks: z.boolean().optional(),
+  }).optional(),
+  /** 从通讯录补充发送者资料（部门、职位、工号、直属主管）到入站上下文 */
+  senderProfile: z.object({
+    /** 是否开启，默认关闭；需要通讯录个人信息和部门信息读权限，缺少权限时不补充 */
+    enabled: z.boolean().optional(),
+    /** 资料缓存时长（分钟），默认 60 */
+    ttlMinutes: z.number().positive().optional(),
+  }).optional(),
+  /** Agent 可用的消息操作开关 */
+  actions: z.object({
+    /** 更新已发送的互动卡片，默认开启 */
+    edit: z.boolean().optional(),
+    /** 撤回机器人主动发送的消息，默认开启 */
+    unsend: z.boolean().optional(),
+    /** 查询主动发送的单聊消息的已读状态，默认开启 */
+    read: z.boolean().optional(),
+    /** 管理场景群（建群、增删成员、改群名、查看成员），默认关闭 */
+    groups: z.boolean().optional(),
+    /** 创建、更新和完成钉钉待办，默认关闭 */
+    todo: z.boolean().optional(),
+    /** 创建日程和查询忙闲，默认关闭 */
+    calendar: z.boolean().optional(),
+  }).optional(),
+  /** 钉钉待办 */
+  todo: z.object({
+    /** 没有消息发送者时（如定时任务）以该用户的名义创建待办 */
+    creatorUserId: z.string().optional(),
+    /** 回到原群聊的链接模板，{openConversationId} 会替换为群会话 ID */
+    chatLinkTemplate: z.string().optional(),
+    /** 不带时区的截止时间按该时区解析（IANA 名称），默认 Asia/Shanghai */
+    timeZone: z.string().optional(),
+  }).optional(),
+  /** 钉钉日程 */
+  calendar: z.object({
+    /** 没有消息发送者时（如定时任务）以该用户的名义创建日程和查询忙闲 */
+    organizerUserId: z.string().optional(),
+    /** 日程时区（IANA 名称），默认 Asia/Shanghai */
+    timeZone: z.string().optional(),
+    /** 创建日程后把日程卡片发回原会话，默认开启 */
+    sendCard: z.boolean().optional(),
+  }).optional(),
+  /** 超过 20MB 的文件改为上传到钉盘发送 */
+  largeFiles: z.object({
+    /** 以该用户的身份上传和发送（需要是目标群的成员），未配置时不启用 */
+    operatorUserId: z.string().optional(),
+    /** 单聊等非群聊目标使用的钉盘空间 ID，未配置时只有群聊支持大文件 */
+    spaceId: z.string().optional(),
+    /** 大文件上限（MB），默认 500 */
+    maxSizeMB: z.number().positive().optional(),
+    /** 非群聊目标中打开文件的链接模板，{uuid}、{spaceId}、{fileId} 会被替换 */
+    linkTemplate: z.string().optional(),
+  }).optional(),
+  /** DING 提醒（应用内/短信/电话），Agent 通过 sendWithEffect 操作发起 */
+  ding: z.object({
+    /** 可以被 DING 的用户 ID，"*" 表示所有人；未配置时不提供 DING 操作 */
+    recipients: z.array(z.union([z.string(), z.number()])).optional(),
+    /** 可以让 Agent 发起 DING 的用户 ID（当前消息的发送者），"*" 表示所有人；未配置时任何人都不能发起 */
+    requesters: z.array(z.union([z.string(), z.number()])).optional(),
+    /** 是否允许没有消息发送者的调用（如定时任务）发起 DING，默认关闭 */
+    allowWithoutRequester: z.boolean().optional(),
+    /** 允许的提醒方式，默认 ["app", "sms", "call"] */
+    types: z.array(z.enum(["app", "sms", "call"])).optional(),
+  }).optional(),
+  /** 场景群管理 */
+  sceneGroups: z.object({
+    /** 场景群模板 ID（开放平台创建），建群时使用 */
+    templateId: z.string().optional(),
+    /** 默认群主用户 ID，建群时未指定群主则使用 */
+    ownerUserId: z.string().optional(),
+  }).optional(),
 });
 
 export type DingTalkAccountConfig = z.infer<typeof DingTalkAccountConfigSchema>;
 
+export type DingTalkActionsConfig = NonNullable<DingTalkAccountConfig["actions"]>;
+
 /**
  * 钉钉渠道配置 Schema
  *
@@ -97,6 +235,10 @@ export interface ResolvedDingTalkAccount {
   clientSecret: string;
   /** Token 来源 */
   tokenSource: "config" | "none";
+  /** 新版 API 地址（不含末尾斜杠） */
+  apiBaseUrl: string;
+  /** 旧版 oapi 地址（不含末尾斜杠） */
+  oapiBaseUrl: string;
   /** 允许的发送者白名单（单聊），默认 ["*"] 允许所有人 */
   allowFrom: Array<string | number>;
   /** 群聊策略 */
@@ -105,6 +247,75 @@ export interface ResolvedDingTalkAccount {
   groupAllowFrom: Array<string | number>;
   /** 按群 ID 的独立配置 */
   groups: Record<string, DingTalkGroupConfig>;
+  /** 回复模式 */
+  replyMode: DingTalkReplyMode;
+  /** 群聊回复时 @ 提问者 */
+  atSender: boolean;
+  /** 允许 @所有人 */
+  allowAtAll: boolean;
+  /** AI 卡片模板 ID */
+  cardTemplateId: string;
+  /** 互动卡片模板 ID（未配置时不发送互动卡片） */
+  interactiveCardTemplateId?: string;
+  /** Agent 可用的消息操作开关 */
+  actions: DingTalkActionsConfig;
+  /** 已读回执跟踪 */
+  readReceipts: {
+    poll: boolean;
+    intervalMs: number;
+    maxWaitMs: number;
+  };
+  /** 发送图片前的处理 */
+  images: {
+    normalize: boolean;
+    maxSide: number;
+    maxBytes: number;
+    stripLocation: boolean;
+    delivery: DingTalkImageDelivery;
+    proxyBaseUrl?: string;
+    proxyTtlMs: number;
+  };
+  /** 出站发送队列 */
+  sendQueue: {
+    perMinute: number;
+    mergeChunks: boolean;
+  };
+  /** 发送者资料补充 */
+  senderProfile: {
+    enabled: boolean;
+    ttlMs: number;
+  };
+  /** 钉钉待办 */
+  todo: {
+    creatorUserId?: string;
+    chatLinkTemplate: string;
+    timeZone: string;
+  };
+  /** 钉钉日程 */
+  calendar: {
+    organizerUserId?: string;
+    timeZone: string;
+    sendCard: boolean;
+  };
+  /** 钉盘大文件 */
+  largeFiles: {
+    operatorUserId?: string;
+    spaceId?: string;
+    maxBytes: number;
+    linkTemplate: string;
+  };
+  /** DING 提醒 */
+  ding: {
+    recipients: string[];
+    requesters: string[];
+    allowWithoutRequester: boolean;
+    types: DingRemindType[];
+  };
+  /** 场景群管理 */
+  sceneGroups: {
+    templateId?: string;
+    ownerUserId?: string;
+  };
 }
 
 // ======================= Message Types =======================
@@ -164,7 +375,11 @@ export interface FileContent {
   fileSize?: number;
   /** 文件扩展名 */
   extension?: string;
+  /** 钉盘空间 ID（从钉盘分享的文件） */
   spaceId?: string;
+  /** 钉盘文件 ID（dentryId，与 spaceId 一起出现） */
+  fileId?: string;
+  /** 媒体 ID（部分大文件附件只有 mediaId，没有下载码） */
   mediaId?: string;
 }
 
@@ -207,6 +422,22 @@ export interface RichTextContent {
 /** 消息内容联合类型 */
 export type MessageContent = PictureContent | AudioContent | VideoContent | FileContent | RichTextContent;
 
+/**
+ * 被引用的消息（引用回复时位于 text.repliedMsg）
+ * content 的结构与对应类型的消息内容一致，文本类消息为 { text }
+ */
+export interface DingTalkRepliedMessage {
+  msgId?: string;
+  msgType?: string;
+  /** 被引用消息发送者的 dingtalkId（机器人发送的消息为 chatbotUserId） */
+  senderId?: string;
+  senderNick?: string;
+  createdAt?: number;
+  content?: {
+    text?: string;
+  } & Partial<PictureContent & AudioContent & VideoContent & FileContent & RichTextContent>;
+}
+
 /**
  * 钉钉机器人消息数据（来自 Stream 回调）
  */
@@ -227,6 +458,10 @@ export interface DingTalkMessageData {
   sessionWebhookExpiredTime?: string;
   text?: {
     content: string;
+    /** 是否为引用回复 */
+    isReplyMsg?: boolean;
+    /** 被引用的消息 */
+    repliedMsg?: DingTalkRepliedMessage;
   };
   /** 媒体消息内容（图片、语音、视频、文件） */
   content?: MessageContent;
@@ -279,5 +514,128 @@ export interface MarkdownReplyBody {
   at?: AtConfig;
 }
 
-/** 回复消息体联合类型 */
-export type ReplyBody = TextReplyBody | MarkdownReplyBody;
+/** 回复消息体 - 链接 */
+export interface LinkReplyBody {
+  msgtype: "link";
+  link: {
+    title: string;
+    text: string;
+    messageUrl: string;
+    picUrl?: string;
+  };
+}
+
+/** 回复消息体 - ActionCard（单按钮整体跳转，或多按钮独立跳转） */
+export interface ActionCardReplyBody {
+  msgtype: "actionCard";
+  actionCard: {
+    title: string;
+    text: string;
+    /** 单按钮：按钮文字 */
+    singleTitle?: string;
+    /** 单按钮：跳转链接 */
+    singleURL?: string;
+    /** 多按钮：0=竖向，1=横向 */
+    btnOrientation?: "0" | "1";
+    /** 多按钮：按钮列表 */
+    btns?: Array<{ title: string; actionURL: string }>;
+  };
+}
+
+/** 回复消息体 - FeedCard */
+export interface FeedCardReplyBody {
+  msgtype: "feedCard";
+  feedCard: {
+    links: Array<{ title: string; messageURL: string; picURL?: string }>;
+  };
+}
+
+/** 回复消息体联合类型（sessionWebhook 支持的全部消息类型） */
+export type ReplyBody = TextReplyBody | MarkdownReplyBody | LinkReplyBody | ActionCardReplyBody | FeedCardReplyBody;
+
+// ======================= 卡片消息类型 =======================
+
+/** ActionCard 按钮 */
+export interface ActionCardButton {
+  /** 按钮文字 */
+  title: string;
+  /** 点击按钮跳转的链接 */
+  url: string;
+}
+
+/** ActionCard 卡片消息 */
+export interface ActionCardMessage {
+  /** 卡片标题（会话列表中展示） */
+  title: string;
+  /** 卡片正文（Markdown） */
+  text: string;
+  /** 按钮列表：1 个为整体跳转，多个为独立跳转 */
+  buttons: ActionCardButton[];
+  /** 按钮排列方向，默认 vertical（横向仅支持 2 个按钮） */
+  orientation?: "vertical" | "horizontal";
+}
+
+/** 链接消息 */
+export interface LinkMessage {
+  /** 链接标题 */
+  title: string;
+  /** 链接摘要 */
+  text: string;
+  /** 点击跳转的链接 */
+  messageUrl: string;
+  /** 配图链接（可选） */
+  picUrl?: string;
+}
+
+/** FeedCard 单条链接 */
+export interface FeedCardLink {
+  /** 链接标题 */
+  title: string;
+  /** 点击跳转的链接 */
+  messageURL: string;
+  /** 配图链接（可选） */
+  picURL?: string;
+}
+
+// ======================= 互动卡片类型 =======================
+
+/** 互动卡片按钮 */
+export interface InteractiveCardButton {
+  /** 按钮 ID，点击后作为 actionId 回传 */
+  id: string;
+  /** 按钮文字 */
+  text: string;
+  /** 按钮样式 */
+  style?: "primary" | "secondary" | "success" | "danger";
+}
+
+/** 互动卡片消息（对应互动卡片模板变量 title / markdown / buttons） */
+export interface InteractiveCardMessage {
+  /** 卡片标题 */
+  title: string;
+  /** 卡片正文（Markdown） */
+  markdown: string;
+  /** 回传型按钮 */
+  buttons: InteractiveCardButton[];
+}
+
+/**
+ * 卡片回传数据（来自 Stream 回调 TOPIC_CARD）
+ */
+export interface DingTalkCardCallbackData {
+  /** 卡片实例唯一标识（发送时的 outTrackId） */
+  outTrackId: string;
+  /** 点击者的 userId */
+  userId: string;
+  corpId?: string;
+  /** 回调类型，按钮点击为 actionCallback */
+  type?: string;
+  /** 投放场域类型 */
+  spaceType?: string;
+  /** 投放场域 ID */
+  spaceId?: string;
+  /** 回传内容（JSON 字符串），包含 cardPrivateData.actionIds / params */
+  content?: string;
+  /** 部分版本回传内容位于 value 字段 */
+  value?: string;
+}